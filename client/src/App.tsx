@@ -4,15 +4,20 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import HomePage from "@/pages/home-page";
 import DashboardPage from "@/pages/dashboard-page";
 import EventsPage from "@/pages/events-page";
 import StudiesPage from "@/pages/studies-page";
 import PostsPage from "@/pages/posts-page";
 import ForumPage from "@/pages/forum-page";
+import PrayerPage from "@/pages/prayer-page";
 import UsersPage from "@/pages/users-page";
 import SiteEditorPage from "@/pages/site-editor-page";
 import SettingsPage from "@/pages/settings-page";
+import AuditLogPage from "@/pages/audit-log-page";
+import AnalyticsPage from "@/pages/analytics-page";
+import ModerationPage from "@/pages/moderation-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "./hooks/use-auth";
 
@@ -23,13 +28,17 @@ function Router() {
   const isAdminPage = 
     location.startsWith("/dashboard") || 
     location.startsWith("/users") || 
-    location.startsWith("/site-editor");
+    location.startsWith("/site-editor") ||
+    location.startsWith("/audit-log") ||
+    location.startsWith("/analytics") ||
+    location.startsWith("/moderation");
 
   return (
     <Switch>
       {/* Páginas públicas */}
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       
       {/* Páginas protegidas com autenticação */}
       <ProtectedRoute path="/dashboard" component={DashboardPage} />
@@ -37,9 +46,13 @@ function Router() {
       <ProtectedRoute path="/studies" component={StudiesPage} />
       <ProtectedRoute path="/posts" component={PostsPage} />
       <ProtectedRoute path="/forum" component={ForumPage} />
+      <ProtectedRoute path="/prayer" component={PrayerPage} />
       <ProtectedRoute path="/users" component={UsersPage} />
       <ProtectedRoute path="/site-editor" component={SiteEditorPage} />
       <ProtectedRoute path="/settings" component={SettingsPage} />
+      <ProtectedRoute path="/audit-log" component={AuditLogPage} />
+      <ProtectedRoute path="/analytics" component={AnalyticsPage} />
+      <ProtectedRoute path="/moderation" component={ModerationPage} />
       
       {/* Página de erro 404 */}
       <Route component={NotFound} />
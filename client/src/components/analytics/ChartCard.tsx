@@ -0,0 +1,37 @@
+import { Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  onExport: () => void;
+  isEmpty: boolean;
+  children: React.ReactNode;
+}
+
+export default function ChartCard({ title, description, onExport, isEmpty, children }: ChartCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onExport}>
+          <Download className="mr-2 h-4 w-4" />
+          CSV
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isEmpty ? (
+          <div className="flex h-64 items-center justify-center text-sm text-gray-500">
+            Nenhum registro no período
+          </div>
+        ) : (
+          children
+        )}
+      </CardContent>
+    </Card>
+  );
+}
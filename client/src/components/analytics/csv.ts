@@ -0,0 +1,22 @@
+type CsvValue = string | number | null | undefined;
+
+function escapeCsv(value: CsvValue) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Primeira linha com os cabeçalhos, uma linha por item
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+}
+
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]) {
+  // BOM para o Excel reconhecer os acentos
+  const blob = new Blob(["\uFEFF" + toCsv(headers, rows)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
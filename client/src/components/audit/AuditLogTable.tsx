@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { AuditLogPage } from "@shared/schema";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { auditActionLabel, auditEntityLabel } from "./labels";
+
+type AuditEntry = AuditLogPage["items"][number];
+
+interface AuditLogTableProps {
+  entries: AuditEntry[];
+}
+
+const actionStyles: Record<string, string> = {
+  create: "border-green-500 text-green-700",
+  update: "border-blue-500 text-blue-700",
+  delete: "border-destructive text-destructive",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
+}
+
+export default function AuditLogTable({ entries }: AuditLogTableProps) {
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Usuário</TableHead>
+              <TableHead>Ação</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Campos</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">
+                  {entry.createdAt
+                    ? format(new Date(entry.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                    : "---"
+                  }
+                </TableCell>
+                <TableCell>{entry.actorName ?? "Sistema"}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={actionStyles[entry.action]}>
+                    {auditActionLabel(entry.action)}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{entry.entityLabel ?? `#${entry.entityId}`}</div>
+                  <div className="text-xs text-gray-500">
+                    {auditEntityLabel(entry.entityType)} #{entry.entityId}
+                  </div>
+                </TableCell>
+                <TableCell className="max-w-xs truncate text-sm text-gray-500">
+                  {Object.keys(entry.changes).join(", ")}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => setSelected(entry)}>
+                    Detalhes
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {auditActionLabel(selected.action)}:{" "}
+                  {selected.entityLabel ?? `${auditEntityLabel(selected.entityType)} #${selected.entityId}`}
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.actorName ?? "Sistema"}
+                  {selected.createdAt && ` em ${format(new Date(selected.createdAt), "dd/MM/yyyy 'às' HH:mm:ss", { locale: ptBR })}`}
+                  {selected.ipAddress && ` · IP ${selected.ipAddress}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="max-h-[60vh] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campo</TableHead>
+                      <TableHead>Antes</TableHead>
+                      <TableHead>Depois</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(selected.changes).map(([field, { before, after }]) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-mono text-xs align-top">{field}</TableCell>
+                        <TableCell className="align-top">
+                          <pre className="whitespace-pre-wrap break-all text-xs text-red-700">{formatValue(before)}</pre>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <pre className="whitespace-pre-wrap break-all text-xs text-green-700">{formatValue(after)}</pre>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
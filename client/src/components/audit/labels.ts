@@ -0,0 +1,29 @@
+import type { AuditAction, AuditEntityType } from "@shared/schema";
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: "Criação",
+  update: "Alteração",
+  delete: "Exclusão",
+};
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  event: "Evento",
+  study: "Estudo",
+  post: "Post",
+  forum_topic: "Tópico do fórum",
+  forum_reply: "Resposta do fórum",
+  content_report: "Denúncia",
+  prayer_request: "Pedido de oração",
+  user: "Usuário",
+  site_setting: "Configuração do site",
+  media: "Mídia",
+};
+
+// Entradas antigas podem ter tipos que não existem mais
+export function auditActionLabel(action: string) {
+  return auditActionLabels[action as AuditAction] ?? action;
+}
+
+export function auditEntityLabel(entityType: string) {
+  return auditEntityLabels[entityType as AuditEntityType] ?? entityType;
+}
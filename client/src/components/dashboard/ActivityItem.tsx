@@ -1,7 +1,6 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { FileText, MessageSquare, UserPlus, Edit, Calendar } from "lucide-react";
-
-type ActivityType = "new_member" | "new_study" | "new_event" | "new_forum";
+import { FileText, MessageSquare, UserPlus, Edit, Calendar, PenTool } from "lucide-react";
+import type { ActivityType } from "@shared/schema";
 
 interface ActivityItemProps {
   type: ActivityType;
@@ -20,6 +19,8 @@ export default function ActivityItem({ type, username, content, timeAgo, avatarU
         return { icon: <Edit size={16} className="text-white" />, bgColor: "bg-green-500" };
       case "new_event":
         return { icon: <Calendar size={16} className="text-white" />, bgColor: "bg-orange-500" };
+      case "new_post":
+        return { icon: <PenTool size={16} className="text-white" />, bgColor: "bg-blue-500" };
       case "new_forum":
         return { icon: <MessageSquare size={16} className="text-white" />, bgColor: "bg-primary" };
       default:
@@ -1,10 +1,11 @@
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowUp, Users, Calendar, BookOpen } from "lucide-react";
+import { ArrowDown, ArrowUp, Minus, Users, Calendar, BookOpen, MessageSquare } from "lucide-react";
+import type { DashboardStats as Stats, PeriodStat } from "@shared/schema";
 
 interface StatCard {
   title: string;
-  value: string | number;
-  change: string;
+  stat: PeriodStat;
+  comparison: string;
   icon: JSX.Element;
   linkText: string;
   linkHref: string;
@@ -12,19 +13,44 @@ interface StatCard {
 }
 
 interface DashboardStatsProps {
-  stats: {
-    totalMembers: number;
-    monthlyEvents: number;
-    publishedStudies: number;
-  };
+  stats: Stats;
+}
+
+function ChangeBadge({ stat, comparison }: { stat: PeriodStat; comparison: string }) {
+  // Sem base de comparação no período anterior
+  if (stat.change === null) {
+    return (
+      <span className="ml-2 text-xs text-gray-400" title={`Nada registrado ${comparison}`}>
+        novo
+      </span>
+    );
+  }
+
+  const title = `${stat.previous} ${comparison}`;
+  if (stat.change === 0) {
+    return (
+      <span className="ml-2 text-xs text-gray-400 flex items-center" title={title}>
+        <Minus className="h-3 w-3 mr-0.5" />
+        0%
+      </span>
+    );
+  }
+
+  const up = stat.change > 0;
+  return (
+    <span className={`ml-2 text-xs flex items-center ${up ? "text-green-500" : "text-red-500"}`} title={title}>
+      {up ? <ArrowUp className="h-3 w-3 mr-0.5" /> : <ArrowDown className="h-3 w-3 mr-0.5" />}
+      {Math.abs(stat.change)}%
+    </span>
+  );
 }
 
 export default function DashboardStats({ stats }: DashboardStatsProps) {
   const statCards: StatCard[] = [
     {
       title: "Total de Membros",
-      value: stats.totalMembers,
-      change: "12%",
+      stat: stats.totalMembers,
+      comparison: "no fim do mês passado",
       icon: <Users className="text-primary" />,
       linkText: "Ver detalhes",
       linkHref: "/users",
@@ -32,8 +58,8 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
     },
     {
       title: "Eventos este mês",
-      value: stats.monthlyEvents,
-      change: "8%",
+      stat: stats.monthlyEvents,
+      comparison: "no mês passado",
       icon: <Calendar className="text-orange-500" />,
       linkText: "Ver calendário",
       linkHref: "/events",
@@ -41,17 +67,26 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
     },
     {
       title: "Estudos Publicados",
-      value: stats.publishedStudies,
-      change: "5%",
+      stat: stats.publishedStudies,
+      comparison: "no fim do mês passado",
       icon: <BookOpen className="text-green-500" />,
       linkText: "Gerenciar estudos",
       linkHref: "/studies",
       delay: "0.3s"
+    },
+    {
+      title: "Atividade no Fórum",
+      stat: stats.forumActivity,
+      comparison: "no mesmo período do mês passado",
+      icon: <MessageSquare className="text-blue-500" />,
+      linkText: "Ir ao fórum",
+      linkHref: "/forum",
+      delay: "0.4s"
     }
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 mb-8">
       {statCards.map((card, index) => (
         <Card key={index} className="animate-in fade-in slide-in" style={{ "--enter-delay": card.delay } as React.CSSProperties}>
           <CardContent className="p-6">
@@ -62,11 +97,8 @@ export default function DashboardStats({ stats }: DashboardStatsProps) {
               <div className="ml-4">
                 <h3 className="text-gray-500 text-sm font-medium">{card.title}</h3>
                 <div className="flex items-baseline mt-1">
-                  <span className="text-2xl font-bold text-gray-700">{card.value}</span>
-                  <span className="ml-2 text-xs text-green-500 flex items-center">
-                    <ArrowUp className="h-3 w-3 mr-0.5" />
-                    {card.change}
-                  </span>
+                  <span className="text-2xl font-bold text-gray-700">{card.stat.value}</span>
+                  <ChangeBadge stat={card.stat} comparison={card.comparison} />
                 </div>
               </div>
             </div>
@@ -1,49 +1,52 @@
 import { Calendar, BookOpen, FileText, Users, Edit, BarChart } from "lucide-react";
 import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import type { Permission } from "@shared/permissions";
 
-interface QuickAccessProps {
-  userRole: string;
-}
+export default function QuickAccess() {
+  const { can } = useAuth();
 
-export default function QuickAccess({ userRole }: QuickAccessProps) {
-  const accessItems = [
+  const accessItems: { icon: JSX.Element; title: string; path: string; permission: Permission }[] = [
     {
       icon: <Calendar className="text-primary" />,
       title: "Criar Evento",
-      path: "/events"
+      path: "/events",
+      permission: "events:write"
     },
     {
       icon: <BookOpen className="text-primary" />,
       title: "Novo Estudo",
-      path: "/studies"
+      path: "/studies",
+      permission: "studies:write"
     },
     {
       icon: <FileText className="text-primary" />,
       title: "Nova Postagem",
-      path: "/posts"
+      path: "/posts",
+      permission: "posts:write"
     },
     {
       icon: <Users className="text-primary" />,
       title: "Membros",
       path: "/users",
-      adminOnly: true
+      permission: "users:manage"
     },
     {
       icon: <Edit className="text-primary" />,
       title: "Editor do Site",
       path: "/site-editor",
-      adminOnly: true
+      permission: "site:manage"
     },
     {
       icon: <BarChart className="text-primary" />,
       title: "Relatórios",
       path: "/reports",
-      adminOnly: true
+      permission: "dashboard:view"
     }
   ];
 
-  // Filter items based on user role
-  const filteredItems = accessItems.filter(item => !item.adminOnly || userRole === "admin");
+  // Filter items based on the user's permissions
+  const filteredItems = accessItems.filter(item => can(item.permission));
 
   return (
     <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,92 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { ActivityFeedItem, ActivityFeedPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import ActivityItem from "./ActivityItem";
+
+const PAGE_SIZE = 5;
+
+function describe(activity: ActivityFeedItem) {
+  switch (activity.type) {
+    case "new_member":
+      return "tornou-se membro da igreja";
+    case "new_study":
+      return `publicou o estudo "${activity.title}"`;
+    case "new_event":
+      return `criou um novo evento: ${activity.title}`;
+    case "new_post":
+      return `publicou "${activity.title}" no blog`;
+    case "new_forum":
+      return `iniciou a discussão "${activity.title}" no fórum`;
+  }
+}
+
+// Atividade real da comunidade, carregada aos poucos
+export default function RecentActivity() {
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/activity"],
+    queryFn: async ({ pageParam }): Promise<ActivityFeedPage> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam !== null) params.set("before", String(pageParam));
+
+      const res = await fetch(`/api/activity?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch activity");
+      return res.json();
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Não foi possível carregar as atividades
+      </div>
+    );
+  }
+
+  const activities = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (activities.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Nenhuma atividade recente
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {activities.map((activity) => (
+        <ActivityItem
+          key={activity.id}
+          type={activity.type}
+          username={activity.actorName}
+          content={describe(activity)}
+          timeAgo={activity.timeAgo}
+          avatarUrl={activity.actorAvatarUrl ?? undefined}
+        />
+      ))}
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-primary"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Carregar mais
+        </Button>
+      )}
+    </div>
+  );
+}
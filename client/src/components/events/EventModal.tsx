@@ -34,6 +34,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { eventTypes } from "./eventTypes";
 
 interface EventModalProps {
   open: boolean;
@@ -163,17 +164,6 @@ export default function EventModal({ open, onOpenChange, userId, event }: EventM
     eventMutation.mutate(data);
   };
 
-  // Event types
-  const eventTypes = [
-    { value: "worship", label: "Culto" },
-    { value: "prayer", label: "Oração" },
-    { value: "study", label: "Estudo Bíblico" },
-    { value: "youth", label: "Jovens" },
-    { value: "children", label: "Crianças" },
-    { value: "music", label: "Música" },
-    { value: "other", label: "Outro" }
-  ];
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px]">
@@ -0,0 +1,14 @@
+// Tipos de evento oferecidos no cadastro
+export const eventTypes = [
+  { value: "worship", label: "Culto" },
+  { value: "prayer", label: "Oração" },
+  { value: "study", label: "Estudo Bíblico" },
+  { value: "youth", label: "Jovens" },
+  { value: "children", label: "Crianças" },
+  { value: "music", label: "Música" },
+  { value: "other", label: "Outro" }
+];
+
+export function eventTypeLabel(value: string) {
+  return eventTypes.find((type) => type.value === value)?.label ?? value;
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface HideContentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  isPending: boolean;
+  onConfirm: (reason: string) => void;
+}
+
+// O motivo fica visível apenas para os moderadores
+export default function HideContentDialog({ open, onOpenChange, title, isPending, onConfirm }: HideContentDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            O conteúdo deixa de aparecer para os membros, mas pode ser restaurado por um moderador.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (reason.trim().length >= 3) onConfirm(reason.trim());
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="hide-reason">Motivo</Label>
+            <Textarea
+              id="hide-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex: linguagem ofensiva"
+              maxLength={500}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isPending || reason.trim().length < 3}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Ocultar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMutation } from "@tanstack/react-query";
+import { forumReactionKinds, type ForumEntityType, type ForumReactionKind, type ReactionSummary } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { reactionLabels } from "./reactionLabels";
+
+interface ReactionBarProps {
+  entityType: ForumEntityType;
+  entityId: number;
+  topicId: number;
+  reactions: ReactionSummary[];
+}
+
+const maxNamesShown = 10;
+
+function whoReacted(summary: ReactionSummary) {
+  const names = summary.userNames.slice(0, maxNamesShown).join(", ");
+  const others = summary.count - maxNamesShown;
+  return others > 0 ? `${names} e mais ${others}` : names;
+}
+
+// Reações rápidas no lugar de respostas como "Amém!"
+export default function ReactionBar({ entityType, entityId, topicId, reactions }: ReactionBarProps) {
+  const { toast } = useToast();
+  const basePath = entityType === "forum_topic" ? "/api/forum/topics" : "/api/forum/replies";
+
+  const reactionMutation = useMutation({
+    mutationFn: async ({ kind, reacted }: { kind: ForumReactionKind; reacted: boolean }) => {
+      await apiRequest(reacted ? "PUT" : "DELETE", `${basePath}/${entityId}/reactions/${kind}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: entityType === "forum_topic" ? ["/api/forum/topics"] : ["/api/forum/topics", topicId, "replies"],
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="flex items-center gap-1">
+        {forumReactionKinds.map((kind) => {
+          const summary = reactions.find((reaction) => reaction.kind === kind);
+          const button = (
+            <Button
+              key={kind}
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-8 gap-1 px-2 text-xs",
+                summary?.reacted && "bg-primary/10 text-primary hover:bg-primary/20",
+              )}
+              disabled={reactionMutation.isPending}
+              aria-pressed={summary?.reacted ?? false}
+              aria-label={reactionLabels[kind].label}
+              onClick={() => reactionMutation.mutate({ kind, reacted: !summary?.reacted })}
+            >
+              <span>{reactionLabels[kind].emoji}</span>
+              {summary && <span>{summary.count}</span>}
+            </Button>
+          );
+
+          return summary ? (
+            <Tooltip key={kind}>
+              <TooltipTrigger asChild>{button}</TooltipTrigger>
+              <TooltipContent>
+                <p className="max-w-xs text-xs">
+                  <span className="font-medium">{reactionLabels[kind].label}:</span> {whoReacted(summary)}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          ) : button;
+        })}
+      </div>
+    </TooltipProvider>
+  );
+}
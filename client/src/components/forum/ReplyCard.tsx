@@ -1,4 +1,5 @@
-import { ForumReply } from "@shared/schema";
+import { useRef, useState } from "react";
+import { ForumReplyNode } from "@shared/schema";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,37 +9,53 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
-import { ThumbsUp, Flag, Trash } from "lucide-react";
+import { Flag, Trash, Reply, Quote, EyeOff, Eye } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import HideContentDialog from "./HideContentDialog";
+import ReportDialog from "./ReportDialog";
+import ReactionBar from "./ReactionBar";
 
 interface ReplyCardProps {
-  reply: ForumReply;
+  reply: ForumReplyNode;
   authorName: string;
   authorAvatar?: string;
   timeAgo: string;
   currentUserId: number;
+  // Moderadores podem excluir respostas de outros membros
+  canModerate?: boolean;
+  onReply?: () => void;
+  // Recebe o trecho selecionado, ou a resposta inteira sem seleção
+  onQuote?: (text: string) => void;
 }
 
+const maxQuoteLength = 500;
+
 export default function ReplyCard({ 
   reply, 
   authorName, 
   authorAvatar, 
   timeAgo,
-  currentUserId
+  currentUserId,
+  canModerate = false,
+  onReply,
+  onQuote
 }: ReplyCardProps) {
   const { toast } = useToast();
   const isOwner = reply.authorId === currentUserId;
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [showHideDialog, setShowHideDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const isHidden = !!reply.hiddenAt;
   
   const deleteReplyMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("DELETE", `/api/forum/replies/${reply.id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ 
-        queryKey: ["/api/forum/topics", reply.topicId, "replies"] 
-      });
+      // Inclui a contagem de respostas na lista de tópicos
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics"] });
       toast({
         title: "Resposta excluída",
         description: "Sua resposta foi excluída com sucesso.",
@@ -54,6 +71,37 @@ export default function ReplyCard({
     },
   });
 
+  // Ocultar e restaurar são ações de moderação
+  const visibilityMutation = useMutation({
+    mutationFn: async (reason: string | null) => {
+      if (reason === null) {
+        await apiRequest("POST", `/api/forum/replies/${reply.id}/restore`);
+      } else {
+        await apiRequest("POST", `/api/forum/replies/${reply.id}/hide`, { reason });
+      }
+    },
+    onSuccess: (_, reason) => {
+      setShowHideDialog(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics", reply.topicId, "replies"] });
+      toast({ title: reason === null ? "Resposta restaurada" : "Resposta ocultada" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleQuote = () => {
+    const selection = window.getSelection();
+    const selected = selection && !selection.isCollapsed && contentRef.current?.contains(selection.anchorNode)
+      ? selection.toString().trim()
+      : "";
+    onQuote?.((selected || reply.content).slice(0, maxQuoteLength));
+  };
+
   const handleDelete = () => {
     if (confirm("Tem certeza que deseja excluir esta resposta?")) {
       deleteReplyMutation.mutate();
@@ -61,7 +109,7 @@ export default function ReplyCard({
   };
 
   return (
-    <Card>
+    <Card id={`reply-${reply.id}`} className={isHidden && canModerate ? "border-amber-300 bg-amber-50/40" : undefined}>
       <CardContent className="p-4">
         <div className="flex items-start gap-4">
           <Avatar>
@@ -76,7 +124,7 @@ export default function ReplyCard({
                 <p className="text-xs text-gray-500">{timeAgo}</p>
               </div>
               
-              {isOwner && (
+              {(isOwner || canModerate) && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
@@ -85,6 +133,19 @@ export default function ReplyCard({
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
+                    {canModerate && (
+                      isHidden ? (
+                        <DropdownMenuItem onClick={() => visibilityMutation.mutate(null)}>
+                          <Eye className="mr-2 h-4 w-4" />
+                          Restaurar
+                        </DropdownMenuItem>
+                      ) : (
+                        <DropdownMenuItem onClick={() => setShowHideDialog(true)}>
+                          <EyeOff className="mr-2 h-4 w-4" />
+                          Ocultar
+                        </DropdownMenuItem>
+                      )
+                    )}
                     <DropdownMenuItem 
                       onClick={handleDelete}
                       className="text-red-500"
@@ -97,24 +158,98 @@ export default function ReplyCard({
               )}
             </div>
             
-            <div className="text-sm text-gray-700">
-              {reply.content}
-            </div>
+            {isHidden && canModerate && (
+              <div className="flex items-center gap-1 text-xs text-amber-700">
+                <EyeOff className="h-3 w-3" />
+                Oculta para os membros{reply.hiddenReason && `: ${reply.hiddenReason}`}
+              </div>
+            )}
+
+            {isHidden && !canModerate ? (
+              <p className="text-sm italic text-gray-400">Esta resposta foi ocultada pela moderação.</p>
+            ) : (
+              <>
+                {reply.quote && (
+                  <blockquote className="border-l-4 border-primary/30 bg-gray-50 px-3 py-2 text-sm text-gray-600">
+                    <div className="mb-1 text-xs font-medium text-gray-500">
+                      {reply.quote.available ? (
+                        <a href={`#reply-${reply.quote.replyId}`} className="hover:text-primary hover:underline">
+                          {reply.quote.authorName} escreveu:
+                        </a>
+                      ) : (
+                        <span>{reply.quote.authorName}</span>
+                      )}
+                    </div>
+                    {reply.quote.text ? (
+                      <p className="whitespace-pre-line">{reply.quote.text}</p>
+                    ) : (
+                      <p className="italic text-gray-400">Trecho ocultado pela moderação.</p>
+                    )}
+                  </blockquote>
+                )}
+
+                <div ref={contentRef} className="text-sm text-gray-700 whitespace-pre-line">
+                  {reply.content}
+                </div>
+              </>
+            )}
             
             <div className="flex items-center gap-4 pt-2">
-              <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs">
-                <ThumbsUp className="h-3 w-3" />
-                <span>Curtir</span>
-              </Button>
-              
-              <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs">
-                <Flag className="h-3 w-3" />
-                <span>Reportar</span>
-              </Button>
+              {onReply && (
+                <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs" onClick={onReply}>
+                  <Reply className="h-3 w-3" />
+                  <span>Responder</span>
+                </Button>
+              )}
+
+              {onQuote && !isHidden && (
+                // onMouseDown evita que o clique desfaça a seleção do trecho
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 gap-1 text-xs"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={handleQuote}
+                >
+                  <Quote className="h-3 w-3" />
+                  <span>Citar</span>
+                </Button>
+              )}
+
+              {!isHidden && (
+                <ReactionBar
+                  entityType="forum_reply"
+                  entityId={reply.id}
+                  topicId={reply.topicId}
+                  reactions={reply.reactions}
+                />
+              )}
+
+              {!isOwner && !isHidden && (
+                <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs" onClick={() => setShowReportDialog(true)}>
+                  <Flag className="h-3 w-3" />
+                  <span>Denunciar</span>
+                </Button>
+              )}
             </div>
           </div>
         </div>
       </CardContent>
+
+      <HideContentDialog
+        open={showHideDialog}
+        onOpenChange={setShowHideDialog}
+        title="Ocultar resposta"
+        isPending={visibilityMutation.isPending}
+        onConfirm={(reason) => visibilityMutation.mutate(reason)}
+      />
+
+      <ReportDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        entityType="forum_reply"
+        entityId={reply.id}
+      />
     </Card>
   );
 }
\ No newline at end of file
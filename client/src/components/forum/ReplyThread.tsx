@@ -0,0 +1,47 @@
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ForumReplyNode } from "@shared/schema";
+import ReplyCard from "./ReplyCard";
+
+interface ReplyThreadProps {
+  reply: ForumReplyNode;
+  currentUserId: number;
+  canModerate: boolean;
+  // Falso em tópicos fechados, exceto para moderadores
+  canReply: boolean;
+  onReply: (reply: ForumReplyNode) => void;
+  onQuote: (reply: ForumReplyNode, text: string) => void;
+}
+
+// Uma resposta seguida das respostas a ela, recuadas
+export default function ReplyThread({ reply, currentUserId, canModerate, canReply, onReply, onQuote }: ReplyThreadProps) {
+  return (
+    <div className="space-y-4">
+      <ReplyCard
+        reply={reply}
+        authorName={reply.authorName}
+        authorAvatar={reply.authorAvatarUrl ?? undefined}
+        timeAgo={formatDistanceToNow(new Date(reply.createdAt!), { addSuffix: true, locale: ptBR })}
+        currentUserId={currentUserId}
+        canModerate={canModerate}
+        onReply={canReply ? () => onReply(reply) : undefined}
+        onQuote={canReply ? (text) => onQuote(reply, text) : undefined}
+      />
+      {reply.children.length > 0 && (
+        <div className="ml-4 sm:ml-8 space-y-4 border-l-2 border-gray-100 pl-4">
+          {reply.children.map((child) => (
+            <ReplyThread
+              key={child.id}
+              reply={child}
+              currentUserId={currentUserId}
+              canModerate={canModerate}
+              canReply={canReply}
+              onReply={onReply}
+              onQuote={onQuote}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
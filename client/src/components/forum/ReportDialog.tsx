@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { reportReasons, type ReportableType, type ReportReason } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { reportReasonLabels } from "./reportLabels";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityType: ReportableType;
+  entityId: number;
+}
+
+// A denúncia vai para a fila da moderação; o autor não sabe quem denunciou
+export default function ReportDialog({ open, onOpenChange, entityType, entityId }: ReportDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setDetails("");
+    }
+  }, [open]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/forum/reports", {
+        entityType,
+        entityId,
+        reason,
+        details: details.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/reports"] });
+      toast({
+        title: "Denúncia enviada",
+        description: "Obrigado. A moderação vai analisar o conteúdo.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const needsDetails = reason === "other" && details.trim().length < 3;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{entityType === "forum_topic" ? "Denunciar tópico" : "Denunciar resposta"}</DialogTitle>
+          <DialogDescription>
+            Conte à moderação o que há de errado com este conteúdo.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (reason && !needsDetails) reportMutation.mutate();
+          }}
+        >
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {reportReasons.map((value) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`report-reason-${value}`} />
+                <Label htmlFor={`report-reason-${value}`} className="font-normal">
+                  {reportReasonLabels[value]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">
+              Detalhes {reason !== "other" && <span className="text-gray-400">(opcional)</span>}
+            </Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+              required={reason === "other"}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={reportMutation.isPending || !reason || needsDetails}>
+              {reportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enviar denúncia
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertForumTopicSchema, ForumTopic } from "@shared/schema";
+import { createForumTopicSchema, forumCategories, ForumTopic } from "@shared/schema";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
@@ -18,6 +18,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -34,20 +35,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { Link } from "wouter";
 
 interface TopicModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  userId: number;
   topic?: ForumTopic;
 }
 
-// Extended schema for the form
-const formSchema = insertForumTopicSchema.extend({});
+// Mesmos campos aceitos pelo servidor
+const formSchema = createForumTopicSchema;
 
 type FormData = z.infer<typeof formSchema>;
 
-export default function TopicModal({ open, onOpenChange, userId, topic }: TopicModalProps) {
+export default function TopicModal({ open, onOpenChange, topic }: TopicModalProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
@@ -58,7 +59,6 @@ export default function TopicModal({ open, onOpenChange, userId, topic }: TopicM
         title: "",
         content: "",
         category: "",
-        authorId: userId
       };
     }
     
@@ -66,7 +66,6 @@ export default function TopicModal({ open, onOpenChange, userId, topic }: TopicM
       title: topic.title,
       content: topic.content,
       category: topic.category,
-      authorId: userId
     };
   };
 
@@ -119,17 +118,6 @@ export default function TopicModal({ open, onOpenChange, userId, topic }: TopicM
     topicMutation.mutate(data);
   };
 
-  // Sample categories for select
-  const categories = [
-    "Discussão",
-    "Sugestão",
-    "Reflexão",
-    "Pedido de Oração",
-    "Testemunho",
-    "Dúvida",
-    "Anúncio"
-  ];
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px]">
@@ -168,13 +156,22 @@ export default function TopicModal({ open, onOpenChange, userId, topic }: TopicM
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {categories.map((category) => (
+                      {forumCategories.map((category) => (
                         <SelectItem key={category} value={category}>
                           {category}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  {field.value === "Pedido de Oração" && (
+                    <FormDescription>
+                      Para controlar quem vê o pedido e receber orações, use a página de{" "}
+                      <Link href="/prayer" className="text-primary underline" onClick={() => onOpenChange(false)}>
+                        pedidos de oração
+                      </Link>
+                      .
+                    </FormDescription>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -0,0 +1,7 @@
+import type { ForumReactionKind } from "@shared/schema";
+
+export const reactionLabels: Record<ForumReactionKind, { emoji: string; label: string }> = {
+  amen: { emoji: "🙏", label: "Amém" },
+  heart: { emoji: "❤️", label: "Amei" },
+  thumbs_up: { emoji: "👍", label: "Curtir" },
+};
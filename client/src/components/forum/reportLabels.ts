@@ -0,0 +1,18 @@
+import type { ReportAction, ReportReason } from "@shared/schema";
+
+export const reportReasonLabels: Record<ReportReason, string> = {
+  spam: "Spam ou propaganda",
+  offensive: "Conteúdo ofensivo",
+  inappropriate: "Conteúdo impróprio",
+  other: "Outro motivo",
+};
+
+export const reportResolutionLabels: Record<Exclude<ReportAction, "dismiss">, string> = {
+  hide: "Conteúdo ocultado",
+  delete: "Conteúdo excluído",
+  warn: "Autor advertido",
+};
+
+export function reportReasonLabel(reason: string) {
+  return reportReasonLabels[reason as ReportReason] ?? reason;
+}
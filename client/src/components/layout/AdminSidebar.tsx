@@ -7,6 +7,9 @@ import {
   Home,
   Users,
   PenTool,
+  History,
+  BarChart3,
+  Flag,
   Settings,
   Menu,
   X,
@@ -16,10 +19,11 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { useState } from "react";
 import AnimatedLogo from "@/components/home/AnimatedLogo";
+import type { Permission } from "@shared/permissions";
 
 export default function AdminSidebar() {
   const [currentPath] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [collapsed, setCollapsed] = useState(false);
   
   // Buscar configurações do site
@@ -32,39 +36,53 @@ export default function AdminSidebar() {
   const siteName = siteSettings?.find((setting: any) => setting.key === "siteName")?.value || "IBI Parnaíba";
   const logoUrl = siteSettings?.find((setting: any) => setting.key === "logoUrl")?.value;
   
-  // Verificar se o usuário é administrador
-  const isAdmin = user?.role === "admin";
-  
-  // Lista de itens do menu
-  const menuItems = [
+  // Lista de itens do menu (sem permissão, visível para todos)
+  const menuItems: { name: string; href: string; icon: JSX.Element; permission?: Permission }[] = [
     {
       name: "Dashboard",
       href: "/dashboard",
       icon: <Home size={20} />,
-      adminOnly: true
+      permission: "dashboard:view"
+    },
+    {
+      name: "Estatísticas",
+      href: "/analytics",
+      icon: <BarChart3 size={20} />,
+      permission: "analytics:view"
+    },
+    {
+      name: "Moderação",
+      href: "/moderation",
+      icon: <Flag size={20} />,
+      permission: "forum:moderate"
     },
     {
       name: "Usuários",
       href: "/users",
       icon: <Users size={20} />,
-      adminOnly: true
+      permission: "users:manage"
     },
     {
       name: "Editor do Site",
       href: "/site-editor",
       icon: <PenTool size={20} />,
-      adminOnly: true
+      permission: "site:manage"
+    },
+    {
+      name: "Histórico",
+      href: "/audit-log",
+      icon: <History size={20} />,
+      permission: "audit:view"
     },
     {
       name: "Configurações",
       href: "/settings",
-      icon: <Settings size={20} />,
-      adminOnly: false
+      icon: <Settings size={20} />
     }
   ];
   
-  // Filtrar itens com base no papel do usuário
-  const filteredItems = menuItems.filter(item => !item.adminOnly || isAdmin);
+  // Filtrar itens com base nas permissões do papel do usuário
+  const filteredItems = menuItems.filter(item => !item.permission || can(item.permission));
 
   return (
     <div
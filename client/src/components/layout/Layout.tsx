@@ -12,7 +12,7 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const [currentPath] = useLocation();
-  const { user } = useAuth();
+  const { can } = useAuth();
   const isMobile = useIsMobile();
   
   // Verificar se a página atual é uma página de administração
@@ -20,11 +20,14 @@ export default function Layout({ children }: LayoutProps) {
     currentPath.startsWith("/dashboard") ||
     currentPath.startsWith("/users") ||
     currentPath.startsWith("/site-editor") ||
+    currentPath.startsWith("/audit-log") ||
+    currentPath.startsWith("/analytics") ||
+    currentPath.startsWith("/moderation") ||
     currentPath.startsWith("/settings");
   
   // Verificar se devemos mostrar a barra lateral de administração
-  // Só mostrar para administradores em páginas administrativas
-  const showAdminSidebar = user?.role === "admin" && isAdminPage;
+  // Só mostrar para quem acessa o painel, em páginas administrativas
+  const showAdminSidebar = can("dashboard:view") && isAdminPage;
   
   // Verificar se deve mostrar o rodapé
   // Não mostrar em páginas administrativas
@@ -4,9 +4,13 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useAuth } from "@/hooks/use-auth";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { 
+  BarChart3, 
   Book, 
   Calendar, 
+  Flag, 
   ChevronDown, 
+  HandHeart, 
+  History, 
   Home, 
   LogOut, 
   Menu, 
@@ -16,6 +20,7 @@ import {
   X, 
   User
 } from "lucide-react";
+import type { Permission } from "@shared/permissions";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -29,12 +34,13 @@ import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import AnimatedLogo from "@/components/home/AnimatedLogo";
+import ResponsiveImage from "@/components/media/ResponsiveImage";
 import MobileNavLink from "./MobileNavLink";
 
 export default function Navbar() {
   const [, navigate] = useLocation();
   const [currentPath] = useLocation();
-  const { user, logoutMutation } = useAuth();
+  const { user, logoutMutation, can } = useAuth();
   const isMobile = useIsMobile();
   const [scrolled, setScrolled] = useState(false);
   const [sheetOpen, setSheetOpen] = useState(false);
@@ -108,26 +114,55 @@ export default function Navbar() {
       href: "/forum",
       icon: <MessageSquare className="h-4 w-4 mr-2" />,
     },
+    {
+      name: "Oração",
+      href: "/prayer",
+      icon: <HandHeart className="h-4 w-4 mr-2" />,
+    },
   ];
   
   // Links para usuários logados (administradores)
-  const adminLinks = [
+  const adminLinks: { name: string; href: string; icon: JSX.Element; permission: Permission }[] = [
     {
       name: "Dashboard",
       href: "/dashboard",
       icon: <Home className="h-4 w-4 mr-2" />,
+      permission: "dashboard:view",
+    },
+    {
+      name: "Estatísticas",
+      href: "/analytics",
+      icon: <BarChart3 className="h-4 w-4 mr-2" />,
+      permission: "analytics:view",
+    },
+    {
+      name: "Moderação",
+      href: "/moderation",
+      icon: <Flag className="h-4 w-4 mr-2" />,
+      permission: "forum:moderate",
     },
     {
       name: "Usuários",
       href: "/users",
       icon: <User className="h-4 w-4 mr-2" />,
+      permission: "users:manage",
     },
     {
       name: "Editor do Site",
       href: "/site-editor",
       icon: <PenTool className="h-4 w-4 mr-2" />,
+      permission: "site:manage",
+    },
+    {
+      name: "Histórico",
+      href: "/audit-log",
+      icon: <History className="h-4 w-4 mr-2" />,
+      permission: "audit:view",
     }
   ];
+  
+  // Mostrar apenas o que o papel do usuário permite
+  const allowedAdminLinks = adminLinks.filter((link) => can(link.permission));
 
   return (
     <motion.header
@@ -145,9 +180,10 @@ export default function Navbar() {
         <div className="flex items-center gap-2">
           <Link to="/" className="flex items-center">
             {logoUrl ? (
-              <img 
+              <ResponsiveImage 
                 src={logoUrl} 
                 alt={siteName} 
+                sizes="160px" 
                 className="h-10 w-auto" 
               />
             ) : (
@@ -197,9 +233,9 @@ export default function Navbar() {
                   <p className="text-xs text-muted-foreground">{user.email}</p>
                 </div>
                 <DropdownMenuSeparator />
-                {user.role === "admin" && (
+                {allowedAdminLinks.length > 0 && (
                   <>
-                    {adminLinks.map((link) => (
+                    {allowedAdminLinks.map((link) => (
                       <DropdownMenuItem key={link.href} onSelect={() => navigate(link.href)}>
                         <div className="flex items-center">
                           {link.icon}
@@ -247,9 +283,10 @@ export default function Navbar() {
                     <Link href="/" onClick={() => setSheetOpen(false)}>
                       <div className="flex items-center">
                         {logoUrl ? (
-                          <img 
+                          <ResponsiveImage 
                             src={logoUrl} 
                             alt={siteName} 
+                            sizes="160px" 
                             className="h-8 w-auto" 
                           />
                         ) : (
@@ -298,12 +335,12 @@ export default function Navbar() {
                             />
                           </div>
                           
-                          {user.role === "admin" && (
+                          {allowedAdminLinks.length > 0 && (
                             <div className="my-4 border-t pt-4">
                               <p className="text-sm font-medium text-muted-foreground mb-3">
                                 Administração
                               </p>
-                              {adminLinks.map((link) => (
+                              {allowedAdminLinks.map((link) => (
                                 <MobileNavLink
                                   key={link.href}
                                   href={link.href}
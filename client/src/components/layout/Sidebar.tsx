@@ -5,16 +5,21 @@ import {
   Calendar,
   ChevronLeft,
   FileText,
+  HandHeart,
   Home,
   MessageSquare,
   Settings,
   Users,
   Edit,
+  History,
+  BarChart3,
+  Flag,
   Menu
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { User } from "@shared/schema";
+import { roleLabel, type Permission } from "@shared/permissions";
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -31,7 +36,7 @@ interface SidebarProps {
 
 export default function Sidebar({ isOpen, onToggle, user }: SidebarProps) {
   const [location] = useLocation();
-  const { logoutMutation } = useAuth();
+  const { logoutMutation, can } = useAuth();
   
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -47,13 +52,19 @@ export default function Sidebar({ isOpen, onToggle, user }: SidebarProps) {
     { path: "/studies", label: "Estudos Bíblicos", icon: <BookOpen size={20} /> },
     { path: "/posts", label: "Postagens", icon: <FileText size={20} /> },
     { path: "/forum", label: "Fórum", icon: <MessageSquare size={20} /> },
+    { path: "/prayer", label: "Oração", icon: <HandHeart size={20} /> },
   ];
 
-  const adminItems = [
-    { path: "/users", label: "Usuários", icon: <Users size={20} /> },
-    { path: "/site-editor", label: "Editor do Site", icon: <Edit size={20} /> },
+  // Itens sem permissão ficam visíveis para todos
+  const adminItems: { path: string; label: string; icon: JSX.Element; permission?: Permission }[] = [
+    { path: "/analytics", label: "Estatísticas", icon: <BarChart3 size={20} />, permission: "analytics:view" },
+    { path: "/moderation", label: "Moderação", icon: <Flag size={20} />, permission: "forum:moderate" },
+    { path: "/users", label: "Usuários", icon: <Users size={20} />, permission: "users:manage" },
+    { path: "/site-editor", label: "Editor do Site", icon: <Edit size={20} />, permission: "site:manage" },
+    { path: "/audit-log", label: "Histórico", icon: <History size={20} />, permission: "audit:view" },
     { path: "/settings", label: "Configurações", icon: <Settings size={20} /> },
   ];
+  const allowedAdminItems = adminItems.filter((item) => !item.permission || can(item.permission));
 
   return (
     <div className="bg-white shadow-lg z-20 transition-all duration-300 ease-in-out h-screen flex flex-col">
@@ -97,12 +108,12 @@ export default function Sidebar({ isOpen, onToggle, user }: SidebarProps) {
           </Link>
         ))}
 
-        {user.role === "admin" && (
+        {allowedAdminItems.length > 0 && (
           <>
             {isOpen && (
               <div className="px-4 mt-6 mb-2 text-gray-400 text-xs uppercase font-bold">Administrativo</div>
             )}
-            {adminItems.map((item) => (
+            {allowedAdminItems.map((item) => (
               <Link 
                 key={item.path} 
                 href={item.path}
@@ -130,7 +141,7 @@ export default function Sidebar({ isOpen, onToggle, user }: SidebarProps) {
               {isOpen && (
                 <div className="ml-3 text-left">
                   <div className="font-medium text-sm text-gray-600">{user.name}</div>
-                  <div className="text-xs text-gray-400">{user.role === "admin" ? "Administrador" : "Membro"}</div>
+                  <div className="text-xs text-gray-400">{roleLabel(user.role)}</div>
                 </div>
               )}
             </Button>
@@ -0,0 +1,76 @@
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { uploadFile, queryClient } from "@/lib/queryClient";
+import type { Media } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+interface FileUploadButtonProps {
+  accept?: string;
+  label?: string;
+  onUploaded: (media: Media) => void;
+}
+
+export default function FileUploadButton({
+  accept,
+  label = "Enviar arquivo",
+  onUploaded,
+}: FileUploadButtonProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const uploadMutation = useMutation({
+    mutationFn: uploadFile,
+    onSuccess: (uploaded) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/media"] });
+      onUploaded(uploaded);
+      toast({
+        title: "Arquivo enviado",
+        description: uploaded.fileName,
+        variant: "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao fazer upload",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadMutation.mutate(file);
+    }
+    // Permite enviar o mesmo arquivo novamente
+    e.target.value = "";
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploadMutation.isPending}
+      >
+        {uploadMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-4 w-4" />
+        )}
+        {label}
+      </Button>
+    </>
+  );
+}
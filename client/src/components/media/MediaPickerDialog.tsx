@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileText, Images, Loader2, Search } from "lucide-react";
+import type { Media, MediaPage, MediaType } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import FileUploadButton from "./FileUploadButton";
+
+interface MediaPickerDialogProps {
+  // Restringe a biblioteca a um tipo de mídia; sem ele o usuário pode filtrar
+  type?: MediaType;
+  label?: string;
+  onSelect: (media: Media) => void;
+}
+
+const PAGE_SIZE = 12;
+
+export default function MediaPickerDialog({
+  type,
+  label = "Biblioteca",
+  onSelect,
+}: MediaPickerDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<MediaType | "all">(type ?? "all");
+  const [page, setPage] = useState(1);
+
+  // Aguarda o usuário parar de digitar antes de buscar
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { data, isLoading } = useQuery<MediaPage>({
+    queryKey: ["/api/media", { search, type: typeFilter, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (search) params.set("search", search);
+      if (typeFilter !== "all") params.set("type", typeFilter);
+
+      const res = await fetch(`/api/media?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch media");
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1;
+
+  const handleSelect = (item: Media) => {
+    onSelect(item);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          <Images className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl font-bold text-gray-700">
+            Biblioteca de Mídia
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Buscar por nome ou texto alternativo"
+              className="pl-9"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          {!type && (
+            <Tabs
+              value={typeFilter}
+              onValueChange={(value) => {
+                setTypeFilter(value as MediaType | "all");
+                setPage(1);
+              }}
+            >
+              <TabsList>
+                <TabsTrigger value="all">Todos</TabsTrigger>
+                <TabsTrigger value="image">Imagens</TabsTrigger>
+                <TabsTrigger value="document">Documentos</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+        </div>
+
+        <div className="min-h-[280px]">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-[280px]">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !data || data.items.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-[280px] text-gray-500">
+              <Images className="h-10 w-10 mb-2 text-gray-300" />
+              <p className="text-sm">Nenhuma mídia encontrada</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {data.items.map((item) => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => handleSelect(item)}
+                  className={cn(
+                    "group flex flex-col overflow-hidden rounded-lg border text-left",
+                    "hover:border-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                  )}
+                >
+                  <div className="aspect-square w-full bg-gray-50 flex items-center justify-center">
+                    {item.mimeType.startsWith("image/") ? (
+                      <img
+                        src={item.url}
+                        alt={item.altText ?? item.fileName}
+                        className="h-full w-full object-cover"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <FileText className="h-10 w-10 text-gray-400" />
+                    )}
+                  </div>
+                  <span className="truncate px-2 py-1 text-xs text-gray-600">
+                    {item.fileName}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+          <FileUploadButton
+            accept={typeFilter === "image" ? "image/*" : undefined}
+            onUploaded={handleSelect}
+          />
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              Anterior
+            </Button>
+            <span className="text-sm text-gray-500">
+              Página {page} de {totalPages}
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              Próxima
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ResolvedMedia } from "@shared/schema";
+
+interface ResponsiveImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  alt: string;
+  // Largura exibida, para o navegador escolher a variante certa (ex: "(min-width: 768px) 33vw, 100vw")
+  sizes?: string;
+}
+
+function buildSrcSet(media: ResolvedMedia, mimeType: string) {
+  const candidates = media.variants
+    .filter((variant) => variant.mimeType === mimeType)
+    .map((variant) => `${variant.url} ${variant.width}w`);
+
+  // O original também entra como a maior opção
+  if (mimeType === media.mimeType && media.width) {
+    candidates.push(`${media.url} ${media.width}w`);
+  }
+
+  return candidates.join(", ");
+}
+
+// Exibe uma imagem enviada com srcset das variantes geradas no upload.
+// URLs externas, ou ainda sem variantes, são exibidas como um <img> comum.
+export default function ResponsiveImage({ src, alt, sizes = "100vw", ...props }: ResponsiveImageProps) {
+  const { data: media } = useQuery<ResolvedMedia | null>({
+    queryKey: ["/api/media/resolve", src],
+    queryFn: async () => {
+      const res = await fetch(`/api/media/resolve?url=${encodeURIComponent(src)}`);
+      if (!res.ok) return null;
+      return res.json();
+    },
+    enabled: src.startsWith("/uploads/"),
+  });
+
+  if (!media || media.variants.length === 0) {
+    return <img src={src} alt={alt} {...props} />;
+  }
+
+  const webpSrcSet = buildSrcSet(media, "image/webp");
+  const originalSrcSet = buildSrcSet(media, media.mimeType);
+
+  return (
+    <picture className="contents">
+      {media.mimeType !== "image/webp" && webpSrcSet && (
+        <source type="image/webp" srcSet={webpSrcSet} sizes={sizes} />
+      )}
+      <img src={src} srcSet={originalSrcSet} sizes={sizes} alt={alt} {...props} />
+    </picture>
+  );
+}
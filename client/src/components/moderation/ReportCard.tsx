@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle, Archive, EyeOff, Trash } from "lucide-react";
+import type { ContentReportView, ReportAction } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { reportReasonLabel, reportResolutionLabels } from "@/components/forum/reportLabels";
+import ResolveReportDialog from "./ResolveReportDialog";
+
+interface ReportCardProps {
+  report: ContentReportView;
+}
+
+const successMessages: Record<ReportAction, string> = {
+  dismiss: "Denúncia arquivada",
+  hide: "Conteúdo ocultado",
+  delete: "Conteúdo excluído",
+  warn: "Advertência enviada ao autor",
+};
+
+export default function ReportCard({ report }: ReportCardProps) {
+  const { toast } = useToast();
+  const [dialogAction, setDialogAction] = useState<"hide" | "warn" | null>(null);
+  const isOpen = report.status === "open";
+  const content = report.content;
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ action, note }: { action: ReportAction; note?: string }) => {
+      await apiRequest("POST", `/api/forum/reports/${report.id}/resolve`, { action, note: note || undefined });
+    },
+    onSuccess: (_, { action }) => {
+      setDialogAction(null);
+      // A decisão vale para todas as denúncias do mesmo conteúdo
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics"] });
+      toast({ title: successMessages[action] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = () => {
+    if (confirm("Tem certeza que deseja excluir este conteúdo? Esta ação não pode ser desfeita.")) {
+      resolveMutation.mutate({ action: "delete" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="outline">
+            {report.entityType === "forum_topic" ? "Tópico" : "Resposta"}
+          </Badge>
+          <Badge className="bg-red-500/10 text-red-600 hover:bg-red-500/10">
+            {reportReasonLabel(report.reason)}
+          </Badge>
+          {isOpen && report.openReportCount > 1 && (
+            <Badge variant="secondary">{report.openReportCount} denúncias</Badge>
+          )}
+          <span className="text-gray-500">
+            por {report.reporterName},{" "}
+            {report.createdAt && formatDistanceToNow(new Date(report.createdAt), { addSuffix: true, locale: ptBR })}
+          </span>
+        </div>
+
+        {report.details && (
+          <p className="text-sm text-gray-600">"{report.details}"</p>
+        )}
+
+        {content ? (
+          <div className="rounded-md border bg-gray-50 p-3 text-sm">
+            <div className="mb-1 flex items-center gap-2 text-xs text-gray-500">
+              <span>{content.authorName}</span>
+              {content.hidden && (
+                <span className="flex items-center gap-1 text-amber-700">
+                  <EyeOff className="h-3 w-3" />
+                  Oculto
+                </span>
+              )}
+            </div>
+            {content.title && <p className="font-medium text-gray-800">{content.title}</p>}
+            <p className="whitespace-pre-line text-gray-700 line-clamp-4">{content.text}</p>
+          </div>
+        ) : (
+          <p className="text-sm italic text-gray-400">O conteúdo denunciado foi excluído.</p>
+        )}
+
+        {isOpen ? (
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => resolveMutation.mutate({ action: "dismiss" })}
+              disabled={resolveMutation.isPending}
+            >
+              <Archive className="mr-1 h-4 w-4" />
+              Arquivar
+            </Button>
+            {content && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setDialogAction("warn")} disabled={resolveMutation.isPending}>
+                  <AlertTriangle className="mr-1 h-4 w-4" />
+                  Advertir autor
+                </Button>
+                {!content.hidden && (
+                  <Button variant="outline" size="sm" onClick={() => setDialogAction("hide")} disabled={resolveMutation.isPending}>
+                    <EyeOff className="mr-1 h-4 w-4" />
+                    Ocultar
+                  </Button>
+                )}
+                <Button variant="destructive" size="sm" onClick={handleDelete} disabled={resolveMutation.isPending}>
+                  <Trash className="mr-1 h-4 w-4" />
+                  Excluir
+                </Button>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="text-sm text-gray-500">
+            {report.resolution
+              ? reportResolutionLabels[report.resolution as keyof typeof reportResolutionLabels] ?? report.resolution
+              : "Arquivada sem ação"}
+            {report.resolvedAt && ` ${formatDistanceToNow(new Date(report.resolvedAt), { addSuffix: true, locale: ptBR })}`}
+            {report.moderatorNote && ` — ${report.moderatorNote}`}
+          </div>
+        )}
+      </CardContent>
+
+      {dialogAction && (
+        <ResolveReportDialog
+          open
+          onOpenChange={(open) => !open && setDialogAction(null)}
+          action={dialogAction}
+          isPending={resolveMutation.isPending}
+          onConfirm={(note) => resolveMutation.mutate({ action: dialogAction, note })}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ResolveReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Ocultar aceita observação opcional; a advertência precisa de texto
+  action: "hide" | "warn";
+  isPending: boolean;
+  onConfirm: (note: string) => void;
+}
+
+const copy = {
+  hide: {
+    title: "Ocultar conteúdo",
+    description: "O conteúdo deixa de aparecer para os membros. A observação fica como motivo visível aos moderadores.",
+    label: "Observação (opcional)",
+    placeholder: "Ex: linguagem ofensiva",
+    confirm: "Ocultar",
+  },
+  warn: {
+    title: "Advertir autor",
+    description: "O autor recebe esta mensagem por email. O conteúdo continua publicado.",
+    label: "Advertência",
+    placeholder: "Explique ao autor o que precisa mudar",
+    confirm: "Enviar advertência",
+  },
+};
+
+export default function ResolveReportDialog({ open, onOpenChange, action, isPending, onConfirm }: ResolveReportDialogProps) {
+  const [note, setNote] = useState("");
+  const text = copy[action];
+  const invalid = action === "warn" && note.trim().length < 3;
+
+  useEffect(() => {
+    if (open) setNote("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{text.title}</DialogTitle>
+          <DialogDescription>{text.description}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!invalid) onConfirm(note.trim());
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="report-note">{text.label}</Label>
+            <Textarea
+              id="report-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={text.placeholder}
+              maxLength={500}
+              required={action === "warn"}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isPending || invalid}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {text.confirm}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
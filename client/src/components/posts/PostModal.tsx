@@ -7,6 +7,7 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 import {
   Dialog,
@@ -29,6 +30,8 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Loader2 } from "lucide-react";
+import FileUploadButton from "@/components/media/FileUploadButton";
+import MediaPickerDialog from "@/components/media/MediaPickerDialog";
 
 interface PostModalProps {
   open: boolean;
@@ -44,7 +47,10 @@ type FormData = z.infer<typeof formSchema>;
 
 export default function PostModal({ open, onOpenChange, userId, post }: PostModalProps) {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Sem permissão de publicação, a postagem fica como rascunho para revisão
+  const canPublish = can("posts:publish");
   
   // Get default values for the form
   const getDefaultValues = () => {
@@ -54,7 +60,7 @@ export default function PostModal({ open, onOpenChange, userId, post }: PostModa
         content: "",
         imageUrl: "",
         authorId: userId,
-        isPublished: true
+        isPublished: canPublish
       };
     }
     
@@ -164,43 +170,67 @@ export default function PostModal({ open, onOpenChange, userId, post }: PostModa
               name="imageUrl"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>URL da Imagem (opcional)</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="Ex: https://exemplo.com/imagem.jpg" 
-                      {...field} 
+                  <FormLabel>Imagem de Destaque (opcional)</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input 
+                        placeholder="Ex: https://exemplo.com/imagem.jpg" 
+                        {...field} 
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FileUploadButton
+                      accept="image/*"
+                      label="Enviar"
+                      onUploaded={(uploaded) => form.setValue("imageUrl", uploaded.url, { shouldDirty: true })}
                     />
-                  </FormControl>
+                    <MediaPickerDialog type="image"
+                      onSelect={(selected) => form.setValue("imageUrl", selected.url, { shouldDirty: true })}
+                    />
+                  </div>
+                  {field.value && (
+                    <img
+                      src={field.value}
+                      alt="Imagem de destaque"
+                      className="mt-2 max-h-40 rounded-md object-cover"
+                    />
+                  )}
                   <FormDescription>
-                    URL para a imagem de destaque da postagem
+                    Envie uma imagem, escolha uma da biblioteca ou informe a URL da imagem de destaque
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
             
-            <FormField
-              control={form.control}
-              name="isPublished"
-              render={({ field }) => (
-                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                  <div className="space-y-0.5">
-                    <FormLabel className="text-base">
-                      Publicar imediatamente
-                    </FormLabel>
-                    <FormDescription>
-                      Se desativado, a postagem será salva como rascunho
-                    </FormDescription>
-                  </div>
-                  <FormControl>
-                    <Switch
-                      checked={field.value}
-                      onCheckedChange={field.onChange}
-                    />
-                  </FormControl>
-                </FormItem>
-              )}
-            />
+            {canPublish ? (
+              <FormField
+                control={form.control}
+                name="isPublished"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Publicar imediatamente
+                      </FormLabel>
+                      <FormDescription>
+                        Se desativado, a postagem será salva como rascunho
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <p className="rounded-lg border p-4 text-sm text-gray-500">
+                A postagem será salva como rascunho e publicada após revisão de um editor.
+              </p>
+            )}
             
             <DialogFooter>
               <Button 
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface AnswerPrayerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Testemunho já compartilhado, para corrigir ou completar
+  initialTestimony?: string | null;
+  isPending: boolean;
+  onConfirm: (testimony: string) => void;
+}
+
+export default function AnswerPrayerDialog({ open, onOpenChange, initialTestimony, isPending, onConfirm }: AnswerPrayerDialogProps) {
+  const [testimony, setTestimony] = useState("");
+
+  useEffect(() => {
+    if (open) setTestimony(initialTestimony ?? "");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Oração respondida</DialogTitle>
+          <DialogDescription>
+            Conte à comunidade como Deus respondeu. O testemunho aparece junto ao pedido.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onConfirm(testimony.trim());
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="prayer-testimony">
+              Testemunho <span className="text-gray-400">(opcional)</span>
+            </Label>
+            <Textarea
+              id="prayer-testimony"
+              value={testimony}
+              onChange={(e) => setTestimony(e.target.value)}
+              rows={5}
+              maxLength={2000}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Marcar como respondida
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CheckCircle2, Clock, HandHeart, Pencil, Trash } from "lucide-react";
+import type { PrayerRequestView, PrayerVisibility } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { prayerVisibilityLabels } from "./labels";
+import AnswerPrayerDialog from "./AnswerPrayerDialog";
+
+interface PrayerRequestCardProps {
+  request: PrayerRequestView;
+  // Autor ou equipe pastoral
+  canManage: boolean;
+  // Visitantes só leem os pedidos públicos
+  canPray?: boolean;
+  onEdit?: (request: PrayerRequestView) => void;
+}
+
+export default function PrayerRequestCard({ request, canManage, canPray = true, onEdit }: PrayerRequestCardProps) {
+  const { toast } = useToast();
+  const [showAnswerDialog, setShowAnswerDialog] = useState(false);
+  const isAnswered = request.status === "answered";
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+      variant: "destructive",
+    });
+  };
+
+  const prayedMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/prayer-requests/${request.id}/prayed`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/prayer-requests"] });
+    },
+    onError,
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async (testimony: string) => {
+      await apiRequest("POST", `/api/prayer-requests/${request.id}/answer`, { testimony: testimony || undefined });
+    },
+    onSuccess: () => {
+      setShowAnswerDialog(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/prayer-requests"] });
+      toast({ title: "Glória a Deus!", description: "O pedido foi marcado como respondido." });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/prayer-requests/${request.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/prayer-requests"] });
+      toast({ title: "Pedido excluído" });
+    },
+    onError,
+  });
+
+  const handleDelete = () => {
+    if (confirm("Tem certeza que deseja excluir este pedido de oração?")) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const authorName = request.authorName ?? "Anônimo";
+
+  return (
+    <Card className={cn(isAnswered && "border-green-200", request.expired && "opacity-75")}>
+      <CardContent className="p-6 space-y-3">
+        <div className="flex items-start gap-4">
+          <Avatar className="h-10 w-10 hidden sm:flex">
+            <AvatarImage src={request.authorAvatarUrl ?? undefined} alt={authorName} />
+            <AvatarFallback>{request.authorName ? request.authorName.charAt(0) : "?"}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <h3 className="font-medium text-gray-700 text-lg">{request.title}</h3>
+                <p className="text-xs text-gray-500">
+                  {authorName}
+                  {request.visibility === "anonymous" && request.authorName && " (anônimo para os membros)"}
+                  {request.createdAt && ` • ${formatDistanceToNow(new Date(request.createdAt), { addSuffix: true, locale: ptBR })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{prayerVisibilityLabels[request.visibility as PrayerVisibility]?.label ?? request.visibility}</Badge>
+                {canManage && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <span className="sr-only">Abrir menu</span>
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-more-vertical"><circle cx="12" cy="5" r="1"/><circle cx="12" cy="12" r="1"/><circle cx="12" cy="19" r="1"/></svg>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {onEdit && (
+                        <DropdownMenuItem onClick={() => onEdit(request)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Editar ou renovar
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onClick={() => setShowAnswerDialog(true)}>
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        {isAnswered ? "Editar testemunho" : "Oração respondida"}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleDelete} className="text-red-500">
+                        <Trash className="mr-2 h-4 w-4" />
+                        Excluir
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-700 whitespace-pre-line">{request.content}</p>
+
+            {isAnswered && (
+              <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+                <div className="flex items-center gap-1 font-medium">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Oração respondida
+                  {request.answeredAt && ` em ${format(new Date(request.answeredAt), "dd/MM/yyyy", { locale: ptBR })}`}
+                </div>
+                {request.testimony && <p className="mt-1 whitespace-pre-line">{request.testimony}</p>}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 pt-1">
+              <span className="flex items-center text-xs text-gray-500">
+                <Clock className="mr-1 h-3 w-3" />
+                {request.expired
+                  ? `Expirou em ${format(new Date(request.expiresAt), "dd/MM/yyyy", { locale: ptBR })}`
+                  : `Na lista até ${format(new Date(request.expiresAt), "dd/MM/yyyy", { locale: ptBR })}`}
+              </span>
+              <Button
+                variant={request.prayed ? "secondary" : "outline"}
+                size="sm"
+                className={cn("gap-1", request.prayed && "text-primary")}
+                disabled={!canPray || request.prayed || request.expired || prayedMutation.isPending}
+                onClick={() => prayedMutation.mutate()}
+              >
+                <HandHeart className="h-4 w-4" />
+                {request.prayed ? "Você orou" : "Eu orei"}
+                <span className="ml-1 text-gray-500">{request.prayerCount}</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      {canManage && (
+        <AnswerPrayerDialog
+          open={showAnswerDialog}
+          onOpenChange={setShowAnswerDialog}
+          initialTestimony={request.testimony}
+          isPending={answerMutation.isPending}
+          onConfirm={(testimony) => answerMutation.mutate(testimony)}
+        />
+      )}
+    </Card>
+  );
+}
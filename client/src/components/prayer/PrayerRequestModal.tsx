@@ -0,0 +1,209 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { prayerDurations, prayerVisibilities, updatePrayerRequestSchema, type PrayerRequestView } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { prayerDurationLabels, prayerVisibilityLabels } from "./labels";
+
+interface PrayerRequestModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request?: PrayerRequestView;
+}
+
+// Na edição o prazo é opcional: escolher um novo renova o pedido a partir de hoje
+const formSchema = updatePrayerRequestSchema.required({ title: true, content: true, visibility: true });
+
+type FormData = z.infer<typeof formSchema>;
+
+const defaultDuration = 30;
+const keepDuration = "keep";
+
+export default function PrayerRequestModal({ open, onOpenChange, request }: PrayerRequestModalProps) {
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { title: "", content: "", visibility: "members", durationDays: defaultDuration },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(request
+      ? { title: request.title, content: request.content, visibility: request.visibility as FormData["visibility"], durationDays: undefined }
+      : { title: "", content: "", visibility: "members", durationDays: defaultDuration });
+  }, [open, request]);
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      if (request) {
+        await apiRequest("PATCH", `/api/prayer-requests/${request.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/prayer-requests", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/prayer-requests"] });
+      onOpenChange(false);
+      toast({
+        title: request ? "Pedido atualizado" : "Pedido enviado",
+        description: request ? undefined : "Vamos orar com você.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-xl font-bold text-gray-700">
+            {request ? "Editar Pedido de Oração" : "Novo Pedido de Oração"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Título</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Saúde da minha mãe" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="content"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pedido</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Conte pelo que devemos orar..." rows={5} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="visibility"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quem pode ver</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {prayerVisibilities.map((visibility) => (
+                          <SelectItem key={visibility} value={visibility}>
+                            {prayerVisibilityLabels[visibility].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{prayerVisibilityLabels[field.value].description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="durationDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{request ? "Prazo" : "Manter na lista por"}</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === keepDuration ? undefined : Number(value))}
+                      value={field.value === undefined ? keepDuration : String(field.value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {request && (
+                          <SelectItem value={keepDuration}>
+                            Até {format(new Date(request.expiresAt), "dd/MM/yyyy", { locale: ptBR })}
+                          </SelectItem>
+                        )}
+                        {prayerDurations.map((days) => (
+                          <SelectItem key={days} value={String(days)}>
+                            {request ? `Renovar por ${prayerDurationLabels[days]}` : prayerDurationLabels[days]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Depois disso o pedido sai da lista da comunidade</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={requestMutation.isPending}>
+                {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {request ? "Salvar" : "Enviar Pedido"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
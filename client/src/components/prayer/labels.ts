@@ -0,0 +1,26 @@
+import type { PrayerVisibility, prayerDurations } from "@shared/schema";
+
+export const prayerVisibilityLabels: Record<PrayerVisibility, { label: string; description: string }> = {
+  public: {
+    label: "Público",
+    description: "Qualquer pessoa, inclusive visitantes do site",
+  },
+  members: {
+    label: "Membros",
+    description: "Apenas membros da igreja com acesso ao portal",
+  },
+  pastoral: {
+    label: "Equipe pastoral",
+    description: "Somente os pastores; os membros não veem o pedido",
+  },
+  anonymous: {
+    label: "Anônimo",
+    description: "Membros veem o pedido sem saber quem pediu; os pastores sabem",
+  },
+};
+
+export const prayerDurationLabels: Record<typeof prayerDurations[number], string> = {
+  7: "1 semana",
+  30: "1 mês",
+  90: "3 meses",
+};
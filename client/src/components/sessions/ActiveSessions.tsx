@@ -0,0 +1,133 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { ActiveSession } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+function errorMessage(error: Error) {
+  return error instanceof ApiError && error.body.message ? error.body.message : error.message;
+}
+
+function isMobile(device: string) {
+  return /Android|iOS/.test(device);
+}
+
+// Lista de sessões da aba Conta: cada login aberto em outro dispositivo pode ser encerrado
+export default function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/user/sessions/${session.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Sessão encerrada" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao encerrar sessão",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async (): Promise<{ revoked: number }> => {
+      const res = await apiRequest("DELETE", "/api/user/sessions");
+      return await res.json();
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({
+        title: "Outras sessões encerradas",
+        description: revoked === 1 ? "1 sessão foi encerrada." : `${revoked} sessões foram encerradas.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao encerrar sessões",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Sessões Ativas</h3>
+        {hasOtherSessions && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+          >
+            {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Encerrar as outras
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500">
+        Usou um computador compartilhado e esqueceu de sair? Encerre a sessão por aqui.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="border rounded-md divide-y">
+          {sessions?.map((session) => {
+            const DeviceIcon = isMobile(session.device) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center justify-between p-4">
+                <div className="flex items-center space-x-3">
+                  <DeviceIcon className="h-8 w-8 text-primary" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{session.device}</h4>
+                      {session.current && <Badge variant="secondary">Este dispositivo</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {session.ipAddress && <>IP {session.ipAddress} · </>}
+                      {session.current
+                        ? "Última atividade: agora"
+                        : `Última atividade ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true, locale: ptBR })}`}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Conectado em {format(new Date(session.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session)}
+                    disabled={revokeMutation.isPending && revokeMutation.variables?.id === session.id}
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Encerrar
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, uploadFile } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import MediaPickerDialog from "@/components/media/MediaPickerDialog";
 
 interface ImageUploaderProps {
   currentImageUrl?: string;
@@ -30,41 +31,17 @@ export default function ImageUploader({
   // Mutation para fazer upload da imagem e salvar a URL como configuração
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
-      // Simular upload de arquivo
-      // Em um cenário real, usaríamos FormData e um endpoint específico para upload
-      const reader = new FileReader();
-      
-      return new Promise<string>((resolve) => {
-        reader.onloadend = () => {
-          // No mundo real, este seria o retorno do servidor com a URL da imagem
-          const uploadedImageUrl = reader.result as string;
-          resolve(uploadedImageUrl);
-        };
-        reader.readAsDataURL(file);
-      });
+      const uploaded = await uploadFile(file);
+      queryClient.invalidateQueries({ queryKey: ["/api/media"] });
+      return uploaded.url;
     },
     onSuccess: async (imageUrl) => {
-      // Após o upload, salvar a URL da imagem nas configurações do site
-      await saveSettingMutation.mutateAsync({
-        key: settingKey,
-        value: imageUrl
-      });
-      
-      // Callback para o componente pai
-      if (onImageUploaded) {
-        onImageUploaded(imageUrl);
-      }
-      
-      toast({
-        title: "Imagem atualizada",
-        description: "A imagem foi atualizada com sucesso.",
-        variant: "default",
-      });
+      await applyImage(imageUrl);
     },
     onError: (error) => {
       toast({
         title: "Erro ao fazer upload",
-        description: `Falha ao fazer upload da imagem: ${error}`,
+        description: `Falha ao fazer upload da imagem: ${error.message}`,
         variant: "destructive",
       });
     }
@@ -88,6 +65,24 @@ export default function ImageUploader({
     }
   });
   
+  // Salvar a URL da imagem nas configurações do site e avisar o componente pai
+  const applyImage = async (imageUrl: string) => {
+    await saveSettingMutation.mutateAsync({
+      key: settingKey,
+      value: imageUrl
+    });
+    
+    if (onImageUploaded) {
+      onImageUploaded(imageUrl);
+    }
+    
+    toast({
+      title: "Imagem atualizada",
+      description: "A imagem foi atualizada com sucesso.",
+      variant: "default",
+    });
+  };
+  
   // Handler para mudança de arquivo
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -177,13 +172,29 @@ export default function ImageUploader({
                 onChange={handleFileChange}
                 disabled={isLoading}
               />
-              <Button
-                variant="outline"
-                onClick={() => document.getElementById(`file-upload-${settingKey}`)?.click()}
-                disabled={isLoading}
-              >
-                Selecionar imagem
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => document.getElementById(`file-upload-${settingKey}`)?.click()}
+                  disabled={isLoading}
+                >
+                  Selecionar imagem
+                </Button>
+                <MediaPickerDialog
+                  type="image"
+                  onSelect={(selected) => applyImage(selected.url)}
+                />
+              </div>
+            </div>
+          )}
+          
+          {displayImage && !imageFile && !isLoading && (
+            <div className="flex justify-end">
+              <MediaPickerDialog
+                type="image"
+                label="Trocar pela biblioteca"
+                onSelect={(selected) => applyImage(selected.url)}
+              />
             </div>
           )}
           
@@ -35,6 +35,7 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { Check, RefreshCw, Save } from "lucide-react";
 import ImageUploader from "./ImageUploader";
+import { defaultSiteSettings } from "@shared/site-defaults";
 
 // Schema para validação do formulário
 const siteSettingsSchema = z.object({
@@ -86,14 +87,7 @@ export default function SiteConfigEditor() {
   const form = useForm<SiteSettingsFormData>({
     resolver: zodResolver(siteSettingsSchema),
     defaultValues: {
-      siteName: "Igreja Batista IBI Parnaíba",
-      font: "Inter",
-      borderRadius: "0.5rem",
-      primaryColor: "#3b82f6",
-      enableEvents: true,
-      enableStudies: true,
-      enableForum: true,
-      enableBlog: true,
+      ...defaultSiteSettings,
       email: "",
       phoneNumber: "",
       churchAddress: "",
@@ -34,6 +34,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import FileUploadButton from "@/components/media/FileUploadButton";
+import MediaPickerDialog from "@/components/media/MediaPickerDialog";
 
 interface StudyModalProps {
   open: boolean;
@@ -209,13 +211,24 @@ export default function StudyModal({ open, onOpenChange, userId, study }: StudyM
               name="fileUrl"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>URL do Material (opcional)</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="Ex: https://exemplo.com/material-de-estudo.pdf" 
-                      {...field} 
+                  <FormLabel>Material de Apoio (opcional)</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input 
+                        placeholder="Ex: https://exemplo.com/material-de-estudo.pdf" 
+                        {...field} 
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FileUploadButton
+                      accept=".pdf,.doc,.docx,.ppt,.pptx,image/*"
+                      label="Enviar"
+                      onUploaded={(uploaded) => form.setValue("fileUrl", uploaded.url, { shouldDirty: true })}
                     />
-                  </FormControl>
+                    <MediaPickerDialog
+                      onSelect={(selected) => form.setValue("fileUrl", selected.url, { shouldDirty: true })}
+                    />
+                  </div>
                   <FormMessage />
                 </FormItem>
               )}
@@ -0,0 +1,32 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface CodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Chamado quando os 6 dígitos foram preenchidos
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Campo para o código de 6 dígitos do aplicativo autenticador
+export default function CodeInput({ value, onChange, onComplete, disabled }: CodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
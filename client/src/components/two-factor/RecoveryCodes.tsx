@@ -0,0 +1,51 @@
+import { Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// Os códigos só são exibidos uma vez, logo após serem gerados
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Códigos copiados" });
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([text + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "codigos-de-recuperacao.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Guarde estes códigos em um lugar seguro. Se perder acesso ao aplicativo autenticador,
+        cada um deles permite entrar uma única vez.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copiar
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes}>
+          <Download className="mr-2 h-4 w-4" />
+          Baixar
+        </Button>
+      </div>
+    </div>
+  );
+}
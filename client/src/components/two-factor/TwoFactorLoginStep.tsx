@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, ShieldCheck } from "lucide-react";
+import type { User } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import CodeInput from "./CodeInput";
+
+interface TwoFactorLoginStepProps {
+  onCancel: () => void;
+}
+
+// Segunda etapa do login, depois que a senha foi aceita
+export default function TwoFactorLoginStep({ onCancel }: TwoFactorLoginStepProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (body: { code: string } | { recoveryCode: string }) => {
+      const res = await apiRequest("POST", "/api/login/2fa", body);
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error) => {
+      setCode("");
+      setError(error instanceof ApiError && error.body.message ? error.body.message : error.message);
+      // Sessão de login expirada: é preciso informar a senha de novo
+      if (error instanceof ApiError && error.status === 401 && !error.body.errors) {
+        onCancel();
+      }
+    },
+  });
+
+  const submitCode = (value: string) => {
+    setError(null);
+    verifyMutation.mutate({ code: value });
+  };
+
+  const submitRecoveryCode = (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    verifyMutation.mutate({ recoveryCode });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center space-y-2">
+        <ShieldCheck className="mx-auto h-10 w-10 text-primary" />
+        <h2 className="text-lg font-medium">Verificação em duas etapas</h2>
+        <p className="text-sm text-gray-500">
+          {useRecoveryCode
+            ? "Informe um dos seus códigos de recuperação. Cada código só pode ser usado uma vez."
+            : "Digite o código de 6 dígitos exibido no seu aplicativo autenticador."}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <form onSubmit={submitRecoveryCode} className="space-y-4">
+          <Input
+            placeholder="xxxxx-xxxxx"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            disabled={verifyMutation.isPending}
+            autoFocus
+          />
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={verifyMutation.isPending || !recoveryCode}>
+            {verifyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verificar
+          </Button>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <CodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={submitCode}
+            disabled={verifyMutation.isPending}
+          />
+          {error && <p className="text-center text-sm font-medium text-destructive">{error}</p>}
+          <Button
+            className="w-full"
+            onClick={() => submitCode(code)}
+            disabled={verifyMutation.isPending || code.length < 6}
+          >
+            {verifyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verificar
+          </Button>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Voltar
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          onClick={() => {
+            setError(null);
+            setUseRecoveryCode(!useRecoveryCode);
+          }}
+        >
+          {useRecoveryCode ? "Usar o aplicativo autenticador" : "Usar um código de recuperação"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { LogOut, ShieldAlert } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import AnimatedLogo from "@/components/home/AnimatedLogo";
+import TwoFactorSetup from "./TwoFactorSetup";
+
+// Tela exibida no lugar das páginas protegidas quando a conta precisa
+// ativar a 2FA antes de continuar (administradores, se configurado)
+export default function TwoFactorRequired() {
+  const { user, logoutMutation } = useAuth();
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md">
+        <AnimatedLogo className="scale-75 mb-6" />
+
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <div className="text-center space-y-2">
+              <ShieldAlert className="mx-auto h-12 w-12 text-primary" />
+              <h1 className="text-xl font-bold text-gray-700">Ative a verificação em duas etapas</h1>
+              <p className="text-gray-500">
+                Olá, {user.name}. Contas de administrador precisam de um aplicativo autenticador
+                para acessar o portal.
+              </p>
+            </div>
+
+            {/* Ao concluir, /api/user é recarregado e esta tela some sozinha */}
+            <TwoFactorSetup onDone={() => {}} />
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sair
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
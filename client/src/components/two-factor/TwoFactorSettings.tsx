@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import type { TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import CodeInput from "./CodeInput";
+import RecoveryCodes from "./RecoveryCodes";
+import TwoFactorSetup from "./TwoFactorSetup";
+
+type DialogMode = "setup" | "recovery-codes" | "disable" | null;
+
+function errorMessage(error: Error) {
+  return error instanceof ApiError && error.body.message ? error.body.message : error.message;
+}
+
+// Seção de autenticação em dois fatores da aba Conta
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [dialog, setDialog] = useState<DialogMode>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+  });
+
+  const closeDialog = () => {
+    setDialog(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+    },
+    onError: (error) => {
+      setCode("");
+      toast({
+        title: "Erro ao gerar códigos",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (password: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", { password });
+      return await res.json();
+    },
+    onSuccess: () => {
+      closeDialog();
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({ title: "Autenticação em dois fatores desativada" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao desativar",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Autenticação em Dois Fatores</h3>
+      <div className="border rounded-md p-4">
+        {isLoading || !status ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : (
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center space-x-3">
+              {status.enabled ? (
+                <ShieldCheck className="h-8 w-8 text-green-600" />
+              ) : (
+                <ShieldOff className="h-8 w-8 text-gray-400" />
+              )}
+              <div>
+                <div className="flex items-center gap-2">
+                  <h4 className="font-medium">Aplicativo autenticador</h4>
+                  {status.enabled ? (
+                    <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Ativada</Badge>
+                  ) : (
+                    <Badge variant="outline">Desativada</Badge>
+                  )}
+                  {status.required && <Badge variant="secondary">Obrigatória</Badge>}
+                </div>
+                <p className="text-sm text-gray-500">
+                  {status.enabled
+                    ? `${status.recoveryCodesRemaining} códigos de recuperação disponíveis`
+                    : "Peça um código do seu celular além da senha ao entrar"}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {status.enabled ? (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setDialog("recovery-codes")}>
+                    Novos códigos
+                  </Button>
+                  {!status.required && (
+                    <Button variant="destructive" size="sm" onClick={() => setDialog("disable")}>
+                      Desativar
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <Button size="sm" onClick={() => setDialog("setup")}>
+                  Ativar
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          {dialog === "setup" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Ativar autenticação em dois fatores</DialogTitle>
+              </DialogHeader>
+              <TwoFactorSetup onDone={closeDialog} />
+            </>
+          )}
+
+          {dialog === "recovery-codes" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Gerar novos códigos de recuperação</DialogTitle>
+                <DialogDescription>
+                  Os códigos anteriores deixarão de funcionar. Confirme com o código do aplicativo autenticador.
+                </DialogDescription>
+              </DialogHeader>
+              {recoveryCodes ? (
+                <>
+                  <RecoveryCodes codes={recoveryCodes} />
+                  <DialogFooter>
+                    <Button onClick={closeDialog}>Já guardei os códigos</Button>
+                  </DialogFooter>
+                </>
+              ) : (
+                <>
+                  <CodeInput
+                    value={code}
+                    onChange={setCode}
+                    onComplete={(value) => regenerateMutation.mutate(value)}
+                    disabled={regenerateMutation.isPending}
+                  />
+                  <DialogFooter>
+                    <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+                    <Button
+                      onClick={() => regenerateMutation.mutate(code)}
+                      disabled={regenerateMutation.isPending || code.length < 6}
+                    >
+                      {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Gerar códigos
+                    </Button>
+                  </DialogFooter>
+                </>
+              )}
+            </>
+          )}
+
+          {dialog === "disable" && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                disableMutation.mutate(password);
+              }}
+              className="space-y-4"
+            >
+              <DialogHeader>
+                <DialogTitle>Desativar autenticação em dois fatores</DialogTitle>
+                <DialogDescription>
+                  Sua conta ficará protegida apenas pela senha. Informe sua senha para confirmar.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-disable-password">Senha</Label>
+                <Input
+                  id="two-factor-disable-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>Cancelar</Button>
+                <Button type="submit" variant="destructive" disabled={disableMutation.isPending || !password}>
+                  {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Desativar
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
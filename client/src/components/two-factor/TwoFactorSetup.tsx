@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { TwoFactorSetup as TwoFactorSetupData } from "@shared/schema";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import CodeInput from "./CodeInput";
+import RecoveryCodes from "./RecoveryCodes";
+
+interface TwoFactorSetupProps {
+  // Chamado depois que o usuário guardou os códigos de recuperação
+  onDone: () => void;
+}
+
+// Ativação da 2FA: QR code, confirmação com o primeiro código e códigos de recuperação
+export default function TwoFactorSetup({ onDone }: TwoFactorSetupProps) {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<TwoFactorSetupData> => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return await res.json();
+    },
+  });
+
+  // Cada vez que o componente é aberto começa com um segredo novo
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+    },
+    onError: (error) => {
+      setCode("");
+      setError(error instanceof ApiError && error.body.message ? error.body.message : error.message);
+    },
+  });
+
+  // O usuário só é recarregado aqui para que a tela de 2FA obrigatória
+  // não desapareça antes de os códigos serem guardados
+  const finish = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    onDone();
+  };
+
+  const submitCode = (value: string) => {
+    setError(null);
+    enableMutation.mutate(value);
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <h4 className="font-medium">Autenticação em dois fatores ativada</h4>
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button onClick={finish}>Já guardei os códigos</Button>
+      </div>
+    );
+  }
+
+  if (setupMutation.isError) {
+    return (
+      <p className="text-sm text-destructive">
+        Não foi possível iniciar a configuração: {setupMutation.error.message}
+      </p>
+    );
+  }
+
+  if (!setupMutation.data) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="list-decimal space-y-1 pl-5 text-sm text-gray-600">
+        <li>Instale um aplicativo autenticador, como Google Authenticator, Microsoft Authenticator ou Authy.</li>
+        <li>Escaneie o QR code abaixo com o aplicativo.</li>
+        <li>Digite o código de 6 dígitos gerado para confirmar.</li>
+      </ol>
+
+      <div className="flex flex-col items-center gap-2">
+        <img
+          src={setupMutation.data.qrCode}
+          alt="QR code para o aplicativo autenticador"
+          className="h-48 w-48"
+        />
+        <p className="text-xs text-gray-500">
+          Não consegue escanear? Digite a chave:{" "}
+          <span className="font-mono break-all">{setupMutation.data.secret}</span>
+        </p>
+      </div>
+
+      <CodeInput
+        value={code}
+        onChange={setCode}
+        onComplete={submitCode}
+        disabled={enableMutation.isPending}
+      />
+      {error && <p className="text-center text-sm font-medium text-destructive">{error}</p>}
+
+      <Button
+        className="w-full"
+        onClick={() => submitCode(code)}
+        disabled={enableMutation.isPending || code.length < 6}
+      >
+        {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Ativar
+      </Button>
+    </div>
+  );
+}
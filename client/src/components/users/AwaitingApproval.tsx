@@ -0,0 +1,67 @@
+import { Clock, LogOut, XCircle } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import AnimatedLogo from "@/components/home/AnimatedLogo";
+
+// Tela exibida no lugar das páginas protegidas enquanto o cadastro
+// não é aprovado por um administrador (ou depois de ser rejeitado)
+export default function AwaitingApproval() {
+  const { user, logoutMutation } = useAuth();
+  if (!user) return null;
+
+  const isRejected = user.status === "rejected";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md text-center">
+        <AnimatedLogo className="scale-75 mb-6" />
+
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            {isRejected ? (
+              <XCircle className="mx-auto h-12 w-12 text-destructive" />
+            ) : (
+              <Clock className="mx-auto h-12 w-12 text-primary" />
+            )}
+
+            <h1 className="text-xl font-bold text-gray-700">
+              {isRejected ? "Cadastro não aprovado" : "Cadastro em análise"}
+            </h1>
+
+            {isRejected ? (
+              <>
+                <p className="text-gray-500">
+                  Olá, {user.name}. Infelizmente o seu cadastro não foi aprovado.
+                </p>
+                {user.rejectionReason && (
+                  <p className="rounded-md bg-gray-100 p-3 text-sm text-gray-700">
+                    <span className="font-medium">Motivo:</span> {user.rejectionReason}
+                  </p>
+                )}
+                <p className="text-sm text-gray-500">
+                  Em caso de dúvidas, fale com a secretaria da igreja.
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-500">
+                Olá, {user.name}. Recebemos o seu cadastro e ele está aguardando a aprovação
+                de um administrador. Assim que for aprovado, você terá acesso ao portal.
+              </p>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sair
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
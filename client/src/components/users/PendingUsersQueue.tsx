@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Check, Loader2, UserCheck, X } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { User, rejectUserSchema, type RejectUserData } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+interface PendingUsersQueueProps {
+  users: User[];
+}
+
+// Fila de cadastros aguardando aprovação de um administrador
+export default function PendingUsersQueue({ users }: PendingUsersQueueProps) {
+  const { toast } = useToast();
+  const [rejectingUser, setRejectingUser] = useState<User | null>(null);
+
+  const rejectForm = useForm<RejectUserData>({
+    resolver: zodResolver(rejectUserSchema),
+    defaultValues: { reason: "" },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const res = await apiRequest("POST", `/api/users/${user.id}/approve`);
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Cadastro aprovado",
+        description: `${user.name} agora tem acesso ao portal.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: `Falha ao aprovar cadastro: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (data: RejectUserData) => {
+      if (!rejectingUser) throw new Error("No user selected");
+      const res = await apiRequest("POST", `/api/users/${rejectingUser.id}/reject`, data);
+      return await res.json();
+    },
+    onSuccess: (user: User) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setRejectingUser(null);
+      toast({
+        title: "Cadastro rejeitado",
+        description: `O cadastro de ${user.name} foi rejeitado.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: `Falha ao rejeitar cadastro: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRejectDialog = (user: User) => {
+    rejectForm.reset({ reason: "" });
+    setRejectingUser(user);
+  };
+
+  const onRejectSubmit = (data: RejectUserData) => {
+    rejectMutation.mutate(data);
+  };
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5 text-amber-500" />
+          Cadastros pendentes ({users.length})
+        </CardTitle>
+        <CardDescription>
+          Novos membros só acessam o portal depois de aprovados.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {users.map(user => (
+            <li key={user.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                <Avatar className="h-9 w-9">
+                  <AvatarImage src={user.avatarUrl || undefined} alt={user.name} />
+                  <AvatarFallback>{user.name[0]}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{user.name}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {user.username} · {user.email}
+                    {user.createdAt && (
+                      <> · {format(new Date(user.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}</>
+                    )}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => approveMutation.mutate(user)}
+                  disabled={approveMutation.isPending}
+                >
+                  <Check className="mr-1 h-4 w-4" />
+                  Aprovar
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => openRejectDialog(user)}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Rejeitar
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+
+      <Dialog open={!!rejectingUser} onOpenChange={(open) => !open && setRejectingUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rejeitar cadastro</DialogTitle>
+            <DialogDescription>
+              O motivo será exibido para {rejectingUser?.name} ao entrar no portal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...rejectForm}>
+            <form onSubmit={rejectForm.handleSubmit(onRejectSubmit)} className="space-y-4">
+              <FormField
+                control={rejectForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Ex: não identificamos este cadastro como membro da igreja" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setRejectingUser(null)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" variant="destructive" disabled={rejectMutation.isPending}>
+                  {rejectMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Rejeitando...
+                    </>
+                  ) : (
+                    "Rejeitar cadastro"
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { User } from "@shared/schema";
+import { roleLabel } from "@shared/permissions";
 import { 
   Table, 
   TableHeader, 
@@ -18,13 +19,23 @@ import {
 import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { useAuth } from "@/hooks/use-auth";
 
 interface UserTableProps {
   users: User[];
   onEditUser: (user: User) => void;
+  onUnlockUser: (user: User) => void;
+  onLogoutUser: (user: User) => void;
 }
 
-export default function UserTable({ users, onEditUser }: UserTableProps) {
+// Bloqueio temporário por excesso de tentativas de login
+function isLocked(user: User) {
+  return !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+}
+
+export default function UserTable({ users, onEditUser, onUnlockUser, onLogoutUser }: UserTableProps) {
+  const { user: currentUser } = useAuth();
+
   return (
     <div className="rounded-md border">
       <Table>
@@ -56,8 +67,26 @@ export default function UserTable({ users, onEditUser }: UserTableProps) {
                   variant={user.role === "admin" ? "default" : "outline"}
                   className={user.role === "admin" ? "bg-primary" : ""}
                 >
-                  {user.role === "admin" ? "Administrador" : "Membro"}
+                  {roleLabel(user.role)}
                 </Badge>
+                {user.status === "rejected" && (
+                  <Badge
+                    variant="outline"
+                    className="ml-2 border-destructive text-destructive"
+                    title={user.rejectionReason || undefined}
+                  >
+                    Rejeitado
+                  </Badge>
+                )}
+                {isLocked(user) && (
+                  <Badge
+                    variant="outline"
+                    className="ml-2 border-amber-500 text-amber-600"
+                    title={`Bloqueado até ${format(new Date(user.lockedUntil!), "dd/MM/yyyy HH:mm", { locale: ptBR })}`}
+                  >
+                    Bloqueado
+                  </Badge>
+                )}
               </TableCell>
               <TableCell>
                 {user.createdAt 
@@ -77,6 +106,16 @@ export default function UserTable({ users, onEditUser }: UserTableProps) {
                     <DropdownMenuItem onClick={() => onEditUser(user)}>
                       Editar
                     </DropdownMenuItem>
+                    {(isLocked(user) || user.failedLoginAttempts > 0) && (
+                      <DropdownMenuItem onClick={() => onUnlockUser(user)}>
+                        Desbloquear login
+                      </DropdownMenuItem>
+                    )}
+                    {user.id !== currentUser?.id && (
+                      <DropdownMenuItem onClick={() => onLogoutUser(user)}>
+                        Encerrar sessões
+                      </DropdownMenuItem>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </TableCell>
@@ -4,17 +4,21 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser, LoginData } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { User as SelectUser, RegisterUserData, LoginData, TwoFactorChallenge } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { getQueryFn, apiRequest, queryClient, ApiError } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // Com 2FA ativada, o login devolve um desafio e só termina em /api/login/2fa
+  loginMutation: UseMutationResult<SelectUser | TwoFactorChallenge, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SelectUser, Error, RegisterUserData>;
+  // Se o papel do usuário logado concede a permissão
+  can: (permission: Permission) => boolean;
 };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
@@ -34,20 +38,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: SelectUser | TwoFactorChallenge) => {
+      if ("twoFactorRequired" in result) return;
+      queryClient.setQueryData(["/api/user"], result);
     },
     onError: (error: Error) => {
       toast({
         title: "Login falhou",
-        description: error.message,
+        // Ex: conta bloqueada temporariamente por excesso de tentativas
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
         variant: "destructive",
       });
     },
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUserData) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
@@ -55,6 +61,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       queryClient.setQueryData(["/api/user"], user);
     },
     onError: (error: Error) => {
+      // Erros por campo são exibidos no próprio formulário
+      if (error instanceof ApiError && Object.keys(error.fieldErrors).length > 0) return;
+
       toast({
         title: "Registro falhou",
         description: error.message,
@@ -88,6 +97,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         loginMutation,
         logoutMutation,
         registerMutation,
+        can: (permission) => hasPermission(user, permission),
       }}
     >
       {children}
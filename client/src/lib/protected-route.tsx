@@ -1,6 +1,10 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { TwoFactorStatus } from "@shared/schema";
+import AwaitingApproval from "@/components/users/AwaitingApproval";
+import TwoFactorRequired from "@/components/two-factor/TwoFactorRequired";
 
 export function ProtectedRoute({
   path,
@@ -10,8 +14,14 @@ export function ProtectedRoute({
   component: () => React.JSX.Element;
 }) {
   const { user, isLoading } = useAuth();
+  // Só administradores podem ser obrigados a usar 2FA
+  const needsTwoFactorCheck = user?.role === "admin" && user.status === "approved" && !user.twoFactorEnabled;
+  const { data: twoFactor, isLoading: isTwoFactorLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+    enabled: needsTwoFactorCheck,
+  });
 
-  if (isLoading) {
+  if (isLoading || (needsTwoFactorCheck && isTwoFactorLoading)) {
     return (
       <Route path={path}>
         <div className="flex items-center justify-center min-h-screen">
@@ -29,5 +39,21 @@ export function ProtectedRoute({
     );
   }
 
+  if (user.status !== "approved") {
+    return (
+      <Route path={path}>
+        <AwaitingApproval />
+      </Route>
+    );
+  }
+
+  if (needsTwoFactorCheck && twoFactor?.required) {
+    return (
+      <Route path={path}>
+        <TwoFactorRequired />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />;
 }
@@ -1,9 +1,57 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { Media } from "@shared/schema";
+
+// JSON body our API sends with errors: a message and, for validation
+// failures, the Zod issues
+export interface ApiErrorBody {
+  message?: string;
+  errors?: { path: (string | number)[]; message: string }[];
+}
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  if (typeof value !== "object" || value === null) return false;
+  const { message, errors } = value as Record<string, unknown>;
+  if (message !== undefined && typeof message !== "string") return false;
+  if (errors === undefined) return true;
+  return Array.isArray(errors) && errors.every((issue) =>
+    typeof issue === "object" && issue !== null &&
+    Array.isArray(issue.path) && typeof issue.message === "string");
+}
+
+// Error thrown for non-2xx responses, keeping the parsed JSON body so forms
+// can show the server's validation errors next to each field
+export class ApiError extends Error {
+  constructor(public status: number, text: string, public data: unknown) {
+    super(`${status}: ${text}`);
+  }
+
+  // The body when it has our error shape, otherwise empty
+  get body(): ApiErrorBody {
+    return isApiErrorBody(this.data) ? this.data : {};
+  }
+
+  get fieldErrors(): Record<string, string> {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of this.body.errors ?? []) {
+      const field = issue.path[0];
+      if (field !== undefined && !(field in fieldErrors)) {
+        fieldErrors[field] = issue.message;
+      }
+    }
+    return fieldErrors;
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: unknown = null;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Not JSON, keep the raw text in the message
+    }
+    throw new ApiError(res.status, text, data);
   }
 }
 
@@ -23,6 +71,20 @@ export async function apiRequest(
   return res;
 }
 
+export async function uploadFile(file: File): Promise<Media> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const res = await fetch("/api/upload", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return await res.json();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
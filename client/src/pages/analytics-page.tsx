@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay, subDays, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2, Shield } from "lucide-react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import Layout from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/use-auth";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import ChartCard from "@/components/analytics/ChartCard";
+import { downloadCsv } from "@/components/analytics/csv";
+import { eventTypeLabel } from "@/components/events/eventTypes";
+import type { AnalyticsBucket, AnalyticsReport } from "@shared/schema";
+
+type RangePreset = "30d" | "90d" | "12m" | "custom";
+
+const bucketLabels: Record<AnalyticsBucket, string> = {
+  day: "Por dia",
+  week: "Por semana",
+  month: "Por mês",
+};
+
+const membersConfig = {
+  count: { label: "Novos membros", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const eventsConfig = {
+  count: { label: "Eventos", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const studiesConfig = {
+  count: { label: "Estudos", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const forumConfig = {
+  topics: { label: "Tópicos", color: "hsl(var(--chart-4))" },
+  replies: { label: "Respostas", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const postsConfig = {
+  count: { label: "Posts publicados", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+// Intervalo [from, to) incluindo o dia de hoje inteiro
+function presetRange(preset: Exclude<RangePreset, "custom">) {
+  const to = addDays(startOfDay(new Date()), 1);
+  switch (preset) {
+    case "30d":
+      return { from: subDays(to, 30), to };
+    case "90d":
+      return { from: subDays(to, 90), to };
+    case "12m":
+      return { from: subMonths(to, 12), to };
+  }
+}
+
+export default function AnalyticsPage() {
+  const { can } = useAuth();
+  const canView = can("analytics:view");
+
+  const [preset, setPreset] = useState<RangePreset>("90d");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [bucket, setBucket] = useState<AnalyticsBucket>("week");
+
+  const range = preset === "custom"
+    ? customFrom && customTo
+      ? { from: new Date(`${customFrom}T00:00:00`), to: addDays(new Date(`${customTo}T00:00:00`), 1) }
+      : null
+    : presetRange(preset);
+
+  const { data: report, isLoading, error } = useQuery<AnalyticsReport>({
+    queryKey: ["/api/analytics", { from: range?.from.toISOString(), to: range?.to.toISOString(), bucket }],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        from: range!.from.toISOString(),
+        to: range!.to.toISOString(),
+        bucket,
+      });
+      const res = await fetch(`/api/analytics?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.errors?.[0]?.message ?? body?.message ?? "Failed to fetch analytics");
+      }
+      return res.json();
+    },
+    enabled: canView && range !== null,
+  });
+
+  const periodLabel = (period: string) =>
+    format(new Date(period), bucket === "month" ? "MMM yyyy" : "dd/MM", { locale: ptBR });
+
+  // Nome do arquivo com o período, p.ex. novos-membros_2024-01-01_2024-03-31.csv
+  const csvName = (name: string) =>
+    report
+      ? `${name}_${format(new Date(report.from), "yyyy-MM-dd")}_${format(subDays(new Date(report.to), 1), "yyyy-MM-dd")}.csv`
+      : `${name}.csv`;
+
+  const csvPeriod = (period: string) => format(new Date(period), "yyyy-MM-dd");
+
+  if (!canView) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center h-96">
+          <Shield className="h-16 w-16 text-gray-300 mb-4" />
+          <h1 className="text-2xl font-bold text-gray-700 mb-2">Acesso Restrito</h1>
+          <p className="text-gray-500 text-center max-w-md">
+            Esta área é restrita a líderes. Você não tem permissão para visualizar este conteúdo.
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const members = report?.members.map((point) => ({ ...point, label: periodLabel(point.period) })) ?? [];
+  const forum = report?.forum.map((point) => ({ ...point, label: periodLabel(point.period) })) ?? [];
+  const posts = report?.posts.map((point) => ({ ...point, label: periodLabel(point.period) })) ?? [];
+  const eventsByType = report?.eventsByType.map((item) => ({ ...item, label: eventTypeLabel(item.group) })) ?? [];
+  const studiesByCategory = report?.studiesByCategory ?? [];
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-gray-700 mb-2">
+            Estatísticas
+          </h1>
+          <p className="text-gray-500">
+            Crescimento da comunidade e ritmo de publicações
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Período</Label>
+            <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30d">Últimos 30 dias</SelectItem>
+                <SelectItem value="90d">Últimos 90 dias</SelectItem>
+                <SelectItem value="12m">Últimos 12 meses</SelectItem>
+                <SelectItem value="custom">Personalizado</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {preset === "custom" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="analytics-from">De</Label>
+                <Input id="analytics-from" type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analytics-to">Até</Label>
+                <Input id="analytics-to" type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label>Agrupamento</Label>
+            <Select value={bucket} onValueChange={(value) => setBucket(value as AnalyticsBucket)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(bucketLabels) as AnalyticsBucket[]).map((value) => (
+                  <SelectItem key={value} value={value}>{bucketLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {range === null ? (
+          <div className="text-center py-12 text-gray-500">
+            Escolha as datas inicial e final do período
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-destructive">
+            {(error as Error).message}
+          </div>
+        ) : isLoading || !report ? (
+          <div className="flex justify-center items-center h-96">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ChartCard
+              title="Novos membros"
+              description="Cadastros aprovados no período"
+              isEmpty={members.every((point) => point.count === 0)}
+              onExport={() => downloadCsv(
+                csvName("novos-membros"),
+                ["periodo", "novos_membros"],
+                report.members.map((point) => [csvPeriod(point.period), point.count]),
+              )}
+            >
+              <ChartContainer config={membersConfig} className="h-64 w-full">
+                <AreaChart data={members}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Area dataKey="count" type="monotone" fill="var(--color-count)" fillOpacity={0.3} stroke="var(--color-count)" />
+                </AreaChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard
+              title="Fórum"
+              description="Tópicos e respostas criados"
+              isEmpty={forum.every((point) => point.topics === 0 && point.replies === 0)}
+              onExport={() => downloadCsv(
+                csvName("forum"),
+                ["periodo", "topicos", "respostas"],
+                report.forum.map((point) => [csvPeriod(point.period), point.topics, point.replies]),
+              )}
+            >
+              <ChartContainer config={forumConfig} className="h-64 w-full">
+                <BarChart data={forum}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="topics" stackId="forum" fill="var(--color-topics)" />
+                  <Bar dataKey="replies" stackId="forum" fill="var(--color-replies)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard
+              title="Eventos por tipo"
+              description="Eventos realizados ou agendados no período"
+              isEmpty={eventsByType.length === 0}
+              onExport={() => downloadCsv(
+                csvName("eventos-por-tipo"),
+                ["tipo", "eventos"],
+                eventsByType.map((item) => [item.label, item.count]),
+              )}
+            >
+              <ChartContainer config={eventsConfig} className="h-64 w-full">
+                <BarChart data={eventsByType}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard
+              title="Estudos por categoria"
+              description="Estudos publicados no período"
+              isEmpty={studiesByCategory.length === 0}
+              onExport={() => downloadCsv(
+                csvName("estudos-por-categoria"),
+                ["categoria", "estudos"],
+                studiesByCategory.map((item) => [item.group, item.count]),
+              )}
+            >
+              <ChartContainer config={studiesConfig} className="h-64 w-full">
+                <BarChart data={studiesByCategory} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="group" tickLine={false} axisLine={false} width={96} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+
+            <ChartCard
+              title="Publicação de posts"
+              description="Posts publicados no blog"
+              isEmpty={posts.every((point) => point.count === 0)}
+              onExport={() => downloadCsv(
+                csvName("posts-publicados"),
+                ["periodo", "posts"],
+                report.posts.map((point) => [csvPeriod(point.period), point.count]),
+              )}
+            >
+              <ChartContainer config={postsConfig} className="h-64 w-full">
+                <BarChart data={posts}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </ChartCard>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History, Loader2, Shield } from "lucide-react";
+import Layout from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { auditActions, auditEntityTypes, type AuditLogPage, type User } from "@shared/schema";
+import AuditLogTable from "@/components/audit/AuditLogTable";
+import { auditActionLabels, auditEntityLabels } from "@/components/audit/labels";
+
+const PAGE_SIZE = 50;
+
+export default function AuditLogPage() {
+  const { can } = useAuth();
+  const canView = can("audit:view");
+
+  const [action, setAction] = useState("all");
+  const [entityType, setEntityType] = useState("all");
+  const [actorId, setActorId] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const applyFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: can("users:manage"),
+  });
+
+  const { data, isLoading } = useQuery<AuditLogPage>({
+    queryKey: ["/api/audit-log", { action, entityType, actorId, from, to, page }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (action !== "all") params.set("action", action);
+      if (entityType !== "all") params.set("entityType", entityType);
+      if (actorId !== "all") params.set("actorId", actorId);
+      // Datas do filtro valem pelo dia inteiro no fuso local
+      if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+      const res = await fetch(`/api/audit-log?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch audit log");
+      return res.json();
+    },
+    enabled: canView,
+  });
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1;
+
+  if (!canView) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center h-96">
+          <Shield className="h-16 w-16 text-gray-300 mb-4" />
+          <h1 className="text-2xl font-bold text-gray-700 mb-2">Acesso Restrito</h1>
+          <p className="text-gray-500 text-center max-w-md">
+            Esta área é restrita a administradores. Você não tem permissão para visualizar este conteúdo.
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-gray-700 mb-2">
+            Histórico de Alterações
+          </h1>
+          <p className="text-gray-500">
+            Quem criou, alterou ou excluiu cada item do portal
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-2">
+            <Label>Ação</Label>
+            <Select value={action} onValueChange={applyFilter(setAction)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as ações</SelectItem>
+                {auditActions.map((value) => (
+                  <SelectItem key={value} value={value}>{auditActionLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Tipo de item</Label>
+            <Select value={entityType} onValueChange={applyFilter(setEntityType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os tipos</SelectItem>
+                {auditEntityTypes.map((value) => (
+                  <SelectItem key={value} value={value}>{auditEntityLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Usuário</Label>
+            <Select value={actorId} onValueChange={applyFilter(setActorId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os usuários</SelectItem>
+                {users?.map((actor) => (
+                  <SelectItem key={actor.id} value={String(actor.id)}>{actor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">De</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => applyFilter(setFrom)(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">Até</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => applyFilter(setTo)(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-96">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card>
+            <CardHeader className="pb-0">
+              <CardTitle>Registros</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 pt-4">
+              {data && data.items.length > 0 ? (
+                <>
+                  <AuditLogTable entries={data.items} />
+                  <div className="flex items-center justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page <= 1}
+                      onClick={() => setPage(page - 1)}
+                    >
+                      Anterior
+                    </Button>
+                    <span className="text-sm text-gray-500">
+                      Página {page} de {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page >= totalPages}
+                      onClick={() => setPage(page + 1)}
+                    >
+                      Próxima
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <div className="text-center py-12 text-gray-500 flex flex-col items-center">
+                  <History className="h-12 w-12 text-gray-300 mb-2" />
+                  <p>Nenhum registro encontrado</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -25,15 +25,11 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import AnimatedLogo from "@/components/home/AnimatedLogo";
-import { Eye, EyeOff, LogIn, UserPlus } from "lucide-react";
-
-// Esquema de validação para o formulário de registro
-const registerSchema = z.object({
-  username: z.string().min(3, { message: "Usuário deve ter pelo menos 3 caracteres" }),
-  password: z.string().min(6, { message: "Senha deve ter pelo menos 6 caracteres" }),
-  name: z.string().min(2, { message: "Nome completo é obrigatório" }),
-  email: z.string().email({ message: "Email inválido" }),
-});
+import TwoFactorLoginStep from "@/components/two-factor/TwoFactorLoginStep";
+import { Eye, EyeOff, LogIn, UserPlus, Mail, ArrowLeft } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { registerUserSchema, type RegisterUserData } from "@shared/schema";
 
 // Esquema de validação para o formulário de login
 const loginSchema = z.object({
@@ -41,8 +37,13 @@ const loginSchema = z.object({
   password: z.string().min(1, { message: "Senha é obrigatória" }),
 });
 
-type RegisterFormData = z.infer<typeof registerSchema>;
+// Esquema de validação para o formulário de recuperação de senha
+const forgotPasswordSchema = z.object({
+  email: z.string().email({ message: "Email inválido" }),
+});
+
 type LoginFormData = z.infer<typeof loginSchema>;
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
 
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<string>("login");
@@ -59,8 +60,8 @@ export default function AuthPage() {
   }, [user, navigate]);
   
   // Form para registro
-  const registerForm = useForm<RegisterFormData>({
-    resolver: zodResolver(registerSchema),
+  const registerForm = useForm<RegisterUserData>({
+    resolver: zodResolver(registerUserSchema),
     defaultValues: {
       username: "",
       password: "",
@@ -78,12 +79,57 @@ export default function AuthPage() {
     }
   });
   
-  const onRegisterSubmit = (data: RegisterFormData) => {
-    registerMutation.mutate(data);
+  // Form para recuperação de senha
+  const forgotPasswordForm = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: ""
+    }
+  });
+  
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormData) => {
+      const res = await apiRequest("POST", "/api/forgot-password", data);
+      return await res.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Não foi possível enviar o link",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const onRegisterSubmit = (data: RegisterUserData) => {
+    registerMutation.mutate(data, {
+      onSuccess: () => {
+        toast({
+          title: "Cadastro recebido",
+          description: "Sua conta será liberada assim que um administrador aprovar o cadastro.",
+        });
+      },
+      onError: (error) => {
+        if (error instanceof ApiError) {
+          for (const [field, message] of Object.entries(error.fieldErrors)) {
+            registerForm.setError(field as keyof RegisterUserData, { message });
+          }
+        }
+      },
+    });
   };
   
   const onLoginSubmit = (data: LoginFormData) => {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (result) => {
+        // Conta com 2FA: a senha foi aceita, falta o código
+        if ("twoFactorRequired" in result) setActiveTab("two-factor");
+      },
+    });
+  };
+  
+  const onForgotPasswordSubmit = (data: ForgotPasswordFormData) => {
+    forgotPasswordMutation.mutate(data);
   };
   
   // Alterar visibilidade da senha
@@ -203,6 +249,17 @@ export default function AuthPage() {
                         )}
                       />
                       
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="px-0 h-auto text-sm"
+                          onClick={() => setActiveTab("forgot")}
+                        >
+                          Esqueci minha senha
+                        </Button>
+                      </div>
+                      
                       <Button 
                         type="submit" 
                         className="w-full" 
@@ -317,6 +374,9 @@ export default function AuthPage() {
                                   </Button>
                                 </div>
                               </FormControl>
+                              <FormDescription>
+                                Use no mínimo 8 caracteres, com letras e números.
+                              </FormDescription>
                               <FormMessage />
                             </FormItem>
                           )}
@@ -344,6 +404,94 @@ export default function AuthPage() {
                   </Form>
                 </Card>
               </TabsContent>
+              
+              <TabsContent value="forgot">
+                <Card className="border-0 shadow-none">
+                  {forgotPasswordMutation.isSuccess ? (
+                    <div className="space-y-4 text-center">
+                      <Mail className="mx-auto h-10 w-10 text-primary" />
+                      <p className="text-gray-600">
+                        {forgotPasswordMutation.data.message}
+                      </p>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => {
+                          forgotPasswordMutation.reset();
+                          setActiveTab("login");
+                        }}
+                      >
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Voltar para o login
+                      </Button>
+                    </div>
+                  ) : (
+                    <Form {...forgotPasswordForm}>
+                      <form 
+                        onSubmit={forgotPasswordForm.handleSubmit(onForgotPasswordSubmit)} 
+                        className="space-y-4"
+                      >
+                        <p className="text-sm text-gray-500">
+                          Informe o email da sua conta e enviaremos um link para criar uma nova senha.
+                        </p>
+                        
+                        <FormField
+                          control={forgotPasswordForm.control}
+                          name="email"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Email</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="email"
+                                  placeholder="seu.email@exemplo.com" 
+                                  {...field} 
+                                  disabled={forgotPasswordMutation.isPending}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        
+                        <Button 
+                          type="submit" 
+                          className="w-full" 
+                          disabled={forgotPasswordMutation.isPending}
+                        >
+                          {forgotPasswordMutation.isPending ? (
+                            <div className="flex items-center">
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                              <span>Enviando...</span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center">
+                              <Mail className="mr-2 h-4 w-4" />
+                              <span>Enviar link</span>
+                            </div>
+                          )}
+                        </Button>
+                        
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          className="w-full"
+                          onClick={() => setActiveTab("login")}
+                        >
+                          <ArrowLeft className="mr-2 h-4 w-4" />
+                          Voltar para o login
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="two-factor">
+                <Card className="border-0 shadow-none">
+                  <TwoFactorLoginStep onCancel={() => setActiveTab("login")} />
+                </Card>
+              </TabsContent>
             </Tabs>
           </motion.div>
         </div>
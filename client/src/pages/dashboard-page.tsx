@@ -1,20 +1,22 @@
 import { useQuery } from "@tanstack/react-query";
-import { Loader2, Calendar, Users } from "lucide-react";
-import { format } from "date-fns";
+import { Link } from "wouter";
+import { Loader2, Calendar, Flag, Users } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import Layout from "@/components/layout/Layout";
 import DashboardStats from "@/components/dashboard/DashboardStats";
 import EventCard from "@/components/dashboard/EventCard";
-import ActivityItem from "@/components/dashboard/ActivityItem";
+import RecentActivity from "@/components/dashboard/RecentActivity";
 import QuickAccess from "@/components/dashboard/QuickAccess";
 import ForumPreview from "@/components/dashboard/ForumPreview";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/hooks/use-auth";
-import { Event, ForumTopic, User } from "@shared/schema";
+import { DashboardStats as Stats, Event, ForumTopicSummary } from "@shared/schema";
 
 export default function DashboardPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canModerate = can("forum:moderate");
   
   const { data: events, isLoading: eventsLoading } = useQuery<Event[]>({
     queryKey: ["/api/events/upcoming", 3],
@@ -25,20 +27,11 @@ export default function DashboardPage() {
     }
   });
   
-  const { data: users, isLoading: usersLoading } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-    queryFn: async () => {
-      const res = await fetch("/api/users");
-      if (!res.ok) {
-        if (res.status === 403) return []; // Handle forbidden (non-admins)
-        throw new Error("Failed to fetch users");
-      }
-      return res.json();
-    },
-    enabled: user?.role === "admin", // Only fetch if user is admin
+  const { data: stats, isLoading: statsLoading } = useQuery<Stats>({
+    queryKey: ["/api/stats"],
   });
   
-  const { data: topics, isLoading: topicsLoading } = useQuery<ForumTopic[]>({
+  const { data: topics, isLoading: topicsLoading } = useQuery<ForumTopicSummary[]>({
     queryKey: ["/api/forum/topics"],
     queryFn: async () => {
       const res = await fetch("/api/forum/topics");
@@ -47,23 +40,21 @@ export default function DashboardPage() {
     }
   });
   
-  // Create sample data with user names from the users list
-  const getUserName = (id: number) => {
-    const foundUser = users?.find(u => u.id === id);
-    return foundUser?.name || "Usuário";
-  };
+  // Denúncias aguardando análise, só para moderadores
+  const { data: reportSummary } = useQuery<{ open: number }>({
+    queryKey: ["/api/forum/reports", "summary"],
+    queryFn: async () => {
+      const res = await fetch("/api/forum/reports/summary", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch reports");
+      return res.json();
+    },
+    enabled: canModerate,
+  });
   
-  const isLoading = eventsLoading || usersLoading || topicsLoading;
+  const isLoading = eventsLoading || topicsLoading || statsLoading;
   
   if (!user) return null;
   
-  // Calculate stats
-  const stats = {
-    totalMembers: users?.length || 0,
-    monthlyEvents: events?.length || 0,
-    publishedStudies: 38, // This would come from a studies API query
-  };
-  
   // Format events for display
   const formattedEvents = events?.map(event => ({
     id: event.id,
@@ -75,42 +66,15 @@ export default function DashboardPage() {
     eventType: event.eventType
   })) || [];
   
-  // Sample activities (would be fetched from an activity log API)
-  const activities = [
-    {
-      type: "new_member" as const,
-      username: "Maria Oliveira",
-      content: "tornou-se membro da igreja",
-      timeAgo: "Há 2 horas"
-    },
-    {
-      type: "new_study" as const,
-      username: user.name,
-      content: "publicou um novo estudo bíblico",
-      timeAgo: "Há 5 horas"
-    },
-    {
-      type: "new_event" as const,
-      username: "Sara Lima",
-      content: "criou um novo evento: Retiro de Jovens",
-      timeAgo: "Há 8 horas"
-    },
-    {
-      type: "new_forum" as const,
-      username: "Carlos Mendes",
-      content: "iniciou uma discussão no fórum",
-      timeAgo: "Há 1 dia"
-    }
-  ];
-  
-  // Format forum topics
+  // Tópicos com atividade mais recente primeiro
   const formattedTopics = topics?.slice(0, 3).map(topic => ({
     id: topic.id,
     title: topic.title,
-    authorName: getUserName(topic.authorId),
-    timeAgo: "Há " + Math.floor(Math.random() * 7 + 1) + " dias", // Would be calculated from createdAt
-    replies: Math.floor(Math.random() * 20 + 1), // Would be fetched from replies count
-    category: ["Discussão", "Sugestão", "Reflexão"][Math.floor(Math.random() * 3)]
+    authorName: topic.authorName,
+    authorAvatarUrl: topic.authorAvatarUrl ?? undefined,
+    timeAgo: formatDistanceToNow(new Date(topic.lastActivityAt), { addSuffix: true, locale: ptBR }),
+    replies: topic.replyCount,
+    category: topic.category
   })) || [];
 
   return (
@@ -135,12 +99,27 @@ export default function DashboardPage() {
                   <div className="flex mt-3 space-x-2">
                     <Button variant="outline" size="sm" className="bg-primary/10 text-primary hover:bg-primary/20 text-xs rounded-full">
                       <Calendar className="mr-1 h-3 w-3" />
-                      {stats.monthlyEvents} Eventos hoje
+                      {stats?.eventsToday ?? 0} Eventos hoje
                     </Button>
                     <Button variant="outline" size="sm" className="bg-orange-500/10 text-orange-500 hover:bg-orange-500/20 text-xs rounded-full">
                       <Users className="mr-1 h-3 w-3" />
-                      {stats.totalMembers} Membros
+                      {stats?.totalMembers.value ?? 0} Membros
                     </Button>
+                    {canModerate && reportSummary && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className={`text-xs rounded-full ${reportSummary.open > 0
+                          ? "bg-red-500/10 text-red-600 hover:bg-red-500/20"
+                          : "bg-gray-100 text-gray-500 hover:bg-gray-200"}`}
+                        asChild
+                      >
+                        <Link href="/moderation">
+                          <Flag className="mr-1 h-3 w-3" />
+                          {reportSummary.open} {reportSummary.open === 1 ? "Denúncia pendente" : "Denúncias pendentes"}
+                        </Link>
+                      </Button>
+                    )}
                   </div>
                 </div>
                 <div className="mt-4 md:mt-0">
@@ -160,7 +139,7 @@ export default function DashboardPage() {
           </div>
 
           {/* Stats and Metrics */}
-          <DashboardStats stats={stats} />
+          {stats && <DashboardStats stats={stats} />}
 
           {/* Recent Activities and Upcoming Events */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
@@ -201,25 +180,12 @@ export default function DashboardPage() {
             {/* Recent Activity (1 column) */}
             <Card className="animate-in fade-in slide-in" style={{ "--enter-delay": "0.5s" } as React.CSSProperties}>
               <CardHeader className="pb-0">
-                <div className="flex justify-between items-center">
-                  <CardTitle className="font-serif text-xl font-bold text-gray-700">
-                    Atividade Recente
-                  </CardTitle>
-                  <Button variant="link" className="text-primary">
-                    Ver tudo
-                  </Button>
-                </div>
+                <CardTitle className="font-serif text-xl font-bold text-gray-700">
+                  Atividade Recente
+                </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4 pt-4">
-                {activities.map((activity, index) => (
-                  <ActivityItem
-                    key={index}
-                    type={activity.type}
-                    username={activity.username}
-                    content={activity.content}
-                    timeAgo={activity.timeAgo}
-                  />
-                ))}
+              <CardContent className="pt-4">
+                <RecentActivity />
               </CardContent>
             </Card>
           </div>
@@ -234,7 +200,7 @@ export default function DashboardPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <QuickAccess userRole={user.role} />
+                <QuickAccess />
               </CardContent>
             </Card>
 
@@ -14,7 +14,7 @@ import { ptBR } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
 
 export default function EventsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [showEventModal, setShowEventModal] = useState(false);
   const [currentEvent, setCurrentEvent] = useState<Event | undefined>(undefined);
@@ -133,6 +133,10 @@ export default function EventsPage() {
 
   if (!user) return null;
 
+  // Quem cria pode alterar o próprio evento; gestores alteram qualquer um
+  const canModify = (event: Event) =>
+    can("events:manage") || (can("events:write") && event.createdBy === user.id);
+
   return (
     <Layout title="Eventos">
       <div className="space-y-6">
@@ -140,10 +144,12 @@ export default function EventsPage() {
           <h1 className="text-3xl font-serif font-bold text-gray-700">
             Calendário de Eventos
           </h1>
-          <Button onClick={handleAddEvent} className="flex items-center gap-1">
-            <Plus size={16} />
-            <span>Novo Evento</span>
-          </Button>
+          {can("events:write") && (
+            <Button onClick={handleAddEvent} className="flex items-center gap-1">
+              <Plus size={16} />
+              <span>Novo Evento</span>
+            </Button>
+          )}
         </div>
 
         <Card>
@@ -242,8 +248,8 @@ export default function EventsPage() {
                           endTime={format(new Date(event.endTime), 'HH:mm')}
                           location={event.location}
                           eventType={event.eventType}
-                          onEdit={handleEditEvent}
-                          onDelete={handleDeleteEvent}
+                          onEdit={canModify(event) ? handleEditEvent : undefined}
+                          onDelete={canModify(event) ? handleDeleteEvent : undefined}
                         />
                       ))
                   ) : (
@@ -1,10 +1,10 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Loader2, MessageSquare, Plus, Search, Users } from "lucide-react";
+import { Eye, EyeOff, Flag, Loader2, Lock, MessageSquare, Pin, Plus, Search, Unlock, Users, X } from "lucide-react";
 import Layout from "@/components/layout/Layout";
-import { ForumTopic, ForumReply } from "@shared/schema";
+import { ForumTopic, ForumTopicSort, ForumTopicSummary, ForumReplyNode, ForumReplyThread, forumCategories } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,6 +16,10 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -26,32 +30,42 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import TopicModal from "@/components/forum/TopicModal";
-import ReplyCard from "@/components/forum/ReplyCard";
+import ReplyThread from "@/components/forum/ReplyThread";
+import HideContentDialog from "@/components/forum/HideContentDialog";
+import ReportDialog from "@/components/forum/ReportDialog";
+import ReactionBar from "@/components/forum/ReactionBar";
+import { reactionLabels } from "@/components/forum/reactionLabels";
 import { format, formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 export default function ForumPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("");
+  const [sort, setSort] = useState<ForumTopicSort>("activity");
   const [showTopicModal, setShowTopicModal] = useState(false);
   const [currentTopic, setCurrentTopic] = useState<ForumTopic | undefined>(undefined);
   const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
+  // Resposta sendo respondida e trecho citado no formulário de resposta
+  const [replyParent, setReplyParent] = useState<ForumReplyNode | null>(null);
+  const [replyQuote, setReplyQuote] = useState<{ reply: ForumReplyNode; text: string } | null>(null);
+  const replyFormRef = useRef<HTMLFormElement>(null);
+  const [showHideDialog, setShowHideDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
-  const { data: topics, isLoading: topicsLoading } = useQuery<ForumTopic[]>({
-    queryKey: ["/api/forum/topics"],
+  const { data: topics, isLoading: topicsLoading } = useQuery<ForumTopicSummary[]>({
+    queryKey: ["/api/forum/topics", { sort }],
     queryFn: async () => {
-      const res = await fetch("/api/forum/topics");
+      const res = await fetch(`/api/forum/topics?sort=${sort}`);
       if (!res.ok) throw new Error("Failed to fetch forum topics");
       return res.json();
     }
   });
 
-  const { data: replies, isLoading: repliesLoading } = useQuery<ForumReply[]>({
+  const { data: thread, isLoading: repliesLoading } = useQuery<ForumReplyThread>({
     queryKey: ["/api/forum/topics", selectedTopicId, "replies"],
     queryFn: async () => {
-      if (!selectedTopicId) return [];
       const res = await fetch(`/api/forum/topics/${selectedTopicId}/replies`);
       if (!res.ok) throw new Error("Failed to fetch forum replies");
       return res.json();
@@ -59,18 +73,6 @@ export default function ForumPage() {
     enabled: !!selectedTopicId
   });
 
-  const { data: users } = useQuery({
-    queryKey: ["/api/users"],
-    queryFn: async () => {
-      const res = await fetch("/api/users");
-      if (!res.ok) {
-        if (res.status === 403) return []; // Handle forbidden (non-admins)
-        throw new Error("Failed to fetch users");
-      }
-      return res.json();
-    },
-  });
-
   const deleteTopicMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/forum/topics/${id}`);
@@ -93,18 +95,69 @@ export default function ForumPage() {
     },
   });
 
+  // Fixar, fechar e mover tópicos
+  const moderateTopicMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: { isPinned?: boolean; isLocked?: boolean; category?: string } }) => {
+      const res = await apiRequest("PATCH", `/api/forum/topics/${id}/moderation`, changes);
+      return await res.json();
+    },
+    onSuccess: (_, { changes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics"] });
+      const title =
+        changes.isPinned !== undefined ? (changes.isPinned ? "Tópico fixado" : "Tópico desafixado") :
+        changes.isLocked !== undefined ? (changes.isLocked ? "Tópico fechado" : "Tópico reaberto") :
+        `Tópico movido para ${changes.category}`;
+      toast({ title });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const topicVisibilityMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string | null }) => {
+      if (reason === null) {
+        await apiRequest("POST", `/api/forum/topics/${id}/restore`);
+      } else {
+        await apiRequest("POST", `/api/forum/topics/${id}/hide`, { reason });
+      }
+    },
+    onSuccess: (_, { reason }) => {
+      setShowHideDialog(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity"] });
+      toast({ title: reason === null ? "Tópico restaurado" : "Tópico ocultado" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const createReplyMutation = useMutation({
     mutationFn: async ({ content, topicId }: { content: string; topicId: number }) => {
       if (!user) throw new Error("User not authenticated");
       const res = await apiRequest("POST", `/api/forum/replies`, {
         content,
         topicId,
-        authorId: user.id,
+        parentReplyId: replyParent?.id ?? null,
+        quotedReplyId: replyQuote?.reply.id ?? null,
+        quotedText: replyQuote?.text ?? null,
       });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics", selectedTopicId, "replies"] });
+      setReplyParent(null);
+      setReplyQuote(null);
+      // Atualiza também a contagem e a última resposta na lista de tópicos
+      queryClient.invalidateQueries({ queryKey: ["/api/forum/topics"] });
       toast({
         title: "Resposta enviada",
         description: "Sua resposta foi enviada com sucesso.",
@@ -114,7 +167,7 @@ export default function ForumPage() {
     onError: (error) => {
       toast({
         title: "Erro",
-        description: `Falha ao enviar resposta: ${error.message}`,
+        description: `Falha ao enviar resposta: ${error instanceof ApiError && error.body.message ? error.body.message : error.message}`,
         variant: "destructive",
       });
     },
@@ -142,6 +195,25 @@ export default function ForumPage() {
 
   const handleBackToTopics = () => {
     setSelectedTopicId(null);
+    setReplyParent(null);
+    setReplyQuote(null);
+  };
+
+  const focusReplyForm = () => {
+    replyFormRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    replyFormRef.current?.querySelector("textarea")?.focus({ preventScroll: true });
+  };
+
+  const handleReplyTo = (reply: ForumReplyNode) => {
+    setReplyParent(reply);
+    focusReplyForm();
+  };
+
+  // Citar também responde à resposta citada
+  const handleQuote = (reply: ForumReplyNode, text: string) => {
+    setReplyParent(reply);
+    setReplyQuote({ reply, text });
+    focusReplyForm();
   };
 
   const handleSendReply = (content: string) => {
@@ -163,20 +235,9 @@ export default function ForumPage() {
   // Get unique categories for filter
   const categories = [...new Set(topics?.map(topic => topic.category) || [])];
 
-  // Get author name from users
-  const getAuthorName = (authorId: number) => {
-    const author = users?.find(user => user.id === authorId);
-    return author?.name || "Usuário Desconhecido";
-  };
-
-  // Get user avatar from users
-  const getUserAvatar = (userId: number) => {
-    const foundUser = users?.find(u => u.id === userId);
-    return foundUser?.avatarUrl;
-  };
-
   // Get selected topic
   const selectedTopic = topics?.find(topic => topic.id === selectedTopicId);
+  const canReply = !!selectedTopic && (!selectedTopic.isLocked || can("forum:moderate"));
 
   // Calculate time ago in Portuguese
   const getTimeAgo = (date: Date | string) => {
@@ -222,6 +283,15 @@ export default function ForumPage() {
                   ))}
                 </SelectContent>
               </Select>
+              <Select value={sort} onValueChange={(value) => setSort(value as ForumTopicSort)}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="activity">Atividade recente</SelectItem>
+                  <SelectItem value="newest">Mais novos</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
             {topicsLoading ? (
@@ -240,12 +310,19 @@ export default function ForumPage() {
                       <CardContent className="p-6">
                         <div className="flex items-start gap-4">
                           <Avatar className="h-10 w-10 hidden sm:flex">
-                            <AvatarImage src={getUserAvatar(topic.authorId)} alt={getAuthorName(topic.authorId)} />
-                            <AvatarFallback>{getAuthorName(topic.authorId).charAt(0)}</AvatarFallback>
+                            <AvatarImage src={topic.authorAvatarUrl ?? undefined} alt={topic.authorName} />
+                            <AvatarFallback>{topic.authorName.charAt(0)}</AvatarFallback>
                           </Avatar>
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center justify-between gap-2 flex-wrap">
-                              <h3 className="font-medium text-gray-700 text-lg">{topic.title}</h3>
+                              <h3 className="font-medium text-gray-700 text-lg flex items-center gap-2">
+                                {topic.isPinned && <Pin className="h-4 w-4 text-primary" aria-label="Fixado" />}
+                                {topic.isLocked && <Lock className="h-4 w-4 text-gray-400" aria-label="Fechado" />}
+                                {topic.title}
+                                {topic.hiddenAt && (
+                                  <Badge variant="outline" className="border-amber-300 text-amber-700">Oculto</Badge>
+                                )}
+                              </h3>
                               <Badge className={`
                                 ${topic.category === "Discussão" ? "bg-primary/10 text-primary hover:bg-primary/20" : 
                                   topic.category === "Sugestão" ? "bg-green-500/10 text-green-500 hover:bg-green-500/20" : 
@@ -259,16 +336,29 @@ export default function ForumPage() {
                             </div>
                             <div className="mt-3 flex flex-wrap items-center justify-between gap-y-2">
                               <div className="flex items-center text-xs text-gray-500">
-                                <span className="font-medium">{getAuthorName(topic.authorId)}</span>
+                                <span className="font-medium">{topic.authorName}</span>
                                 <span className="mx-1">•</span>
                                 <span>{getTimeAgo(topic.createdAt)}</span>
+                                {topic.lastReplyAt && (
+                                  <>
+                                    <span className="mx-1">•</span>
+                                    <span>
+                                      última resposta de <span className="font-medium">{topic.lastReplyAuthorName}</span>{" "}
+                                      {getTimeAgo(topic.lastReplyAt)}
+                                    </span>
+                                  </>
+                                )}
                               </div>
-                              <div className="flex items-center text-xs">
-                                <MessageSquare className="h-3 w-3 mr-1 text-gray-400" />
-                                <span className="text-gray-500">{
-                                  // This would ideally be a count from the API
-                                  Math.floor(Math.random() * 20 + 1)
-                                } respostas</span>
+                              <div className="flex items-center gap-3 text-xs text-gray-500">
+                                {topic.reactions.map((reaction) => (
+                                  <span key={reaction.kind}>
+                                    {reactionLabels[reaction.kind].emoji} {reaction.count}
+                                  </span>
+                                ))}
+                                <span className="flex items-center">
+                                  <MessageSquare className="h-3 w-3 mr-1 text-gray-400" />
+                                  {topic.replyCount} {topic.replyCount === 1 ? "resposta" : "respostas"}
+                                </span>
                               </div>
                             </div>
                           </div>
@@ -299,7 +389,7 @@ export default function ForumPage() {
                 <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mr-1"><path d="m15 18-6-6 6-6"/></svg>
                 Voltar para tópicos
               </Button>
-              {(user.role === "admin" || user.id === selectedTopic.authorId) && (
+              {(can("forum:moderate") || user.id === selectedTopic.authorId) && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="outline" size="sm">
@@ -311,6 +401,49 @@ export default function ForumPage() {
                     <DropdownMenuItem onClick={() => handleEditTopic(selectedTopic)}>
                       Editar tópico
                     </DropdownMenuItem>
+                    {can("forum:moderate") && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => moderateTopicMutation.mutate({ id: selectedTopic.id, changes: { isPinned: !selectedTopic.isPinned } })}
+                        >
+                          <Pin className="mr-2 h-4 w-4" />
+                          {selectedTopic.isPinned ? "Desafixar" : "Fixar no topo"}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => moderateTopicMutation.mutate({ id: selectedTopic.id, changes: { isLocked: !selectedTopic.isLocked } })}
+                        >
+                          {selectedTopic.isLocked ? <Unlock className="mr-2 h-4 w-4" /> : <Lock className="mr-2 h-4 w-4" />}
+                          {selectedTopic.isLocked ? "Reabrir" : "Fechar para respostas"}
+                        </DropdownMenuItem>
+                        <DropdownMenuSub>
+                          <DropdownMenuSubTrigger>Mover para</DropdownMenuSubTrigger>
+                          <DropdownMenuSubContent>
+                            {forumCategories.map((category) => (
+                              <DropdownMenuItem
+                                key={category}
+                                disabled={category === selectedTopic.category}
+                                onClick={() => moderateTopicMutation.mutate({ id: selectedTopic.id, changes: { category } })}
+                              >
+                                {category}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                        {selectedTopic.hiddenAt ? (
+                          <DropdownMenuItem onClick={() => topicVisibilityMutation.mutate({ id: selectedTopic.id, reason: null })}>
+                            <Eye className="mr-2 h-4 w-4" />
+                            Restaurar
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem onClick={() => setShowHideDialog(true)}>
+                            <EyeOff className="mr-2 h-4 w-4" />
+                            Ocultar
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                      </>
+                    )}
                     <DropdownMenuItem 
                       onClick={() => handleDeleteTopic(selectedTopic.id)} 
                       className="text-red-500"
@@ -320,8 +453,31 @@ export default function ForumPage() {
                   </DropdownMenuContent>
                 </DropdownMenu>
               )}
+              {user.id !== selectedTopic.authorId && !selectedTopic.hiddenAt && (
+                <Button variant="ghost" size="sm" className="ml-auto text-gray-500" onClick={() => setShowReportDialog(true)}>
+                  <Flag className="mr-1 h-4 w-4" />
+                  Denunciar
+                </Button>
+              )}
             </div>
 
+            {(selectedTopic.hiddenAt || selectedTopic.isLocked) && (
+              <div className="space-y-2">
+                {selectedTopic.hiddenAt && (
+                  <div className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                    <EyeOff className="h-4 w-4 flex-shrink-0" />
+                    Tópico oculto para os membros{selectedTopic.hiddenReason && `: ${selectedTopic.hiddenReason}`}
+                  </div>
+                )}
+                {selectedTopic.isLocked && (
+                  <div className="flex items-center gap-2 rounded-md border bg-gray-50 p-3 text-sm text-gray-600">
+                    <Lock className="h-4 w-4 flex-shrink-0" />
+                    Este tópico está fechado para novas respostas.
+                  </div>
+                )}
+              </div>
+            )}
+
             <Card className="mb-6">
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -336,10 +492,10 @@ export default function ForumPage() {
                     <CardTitle className="text-2xl font-serif">{selectedTopic.title}</CardTitle>
                     <div className="flex items-center mt-2 text-sm text-gray-500">
                       <Avatar className="h-6 w-6 mr-2">
-                        <AvatarImage src={getUserAvatar(selectedTopic.authorId)} alt={getAuthorName(selectedTopic.authorId)} />
-                        <AvatarFallback>{getAuthorName(selectedTopic.authorId).charAt(0)}</AvatarFallback>
+                        <AvatarImage src={selectedTopic.authorAvatarUrl ?? undefined} alt={selectedTopic.authorName} />
+                        <AvatarFallback>{selectedTopic.authorName.charAt(0)}</AvatarFallback>
                       </Avatar>
-                      <span className="font-medium">{getAuthorName(selectedTopic.authorId)}</span>
+                      <span className="font-medium">{selectedTopic.authorName}</span>
                       <span className="mx-1">•</span>
                       <span>{format(new Date(selectedTopic.createdAt), "dd MMM yyyy 'às' HH:mm", { locale: ptBR })}</span>
                     </div>
@@ -351,13 +507,23 @@ export default function ForumPage() {
                   <p>{selectedTopic.content}</p>
                 </div>
               </CardContent>
+              {!selectedTopic.hiddenAt && (
+                <CardFooter className="pt-0">
+                  <ReactionBar
+                    entityType="forum_topic"
+                    entityId={selectedTopic.id}
+                    topicId={selectedTopic.id}
+                    reactions={selectedTopic.reactions}
+                  />
+                </CardFooter>
+              )}
             </Card>
 
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-medium text-gray-700 flex items-center">
                 <MessageSquare className="mr-2 h-5 w-5 text-primary" />
                 Respostas
-                {replies && <span className="ml-2 text-sm text-gray-500">({replies.length})</span>}
+                {thread && <span className="ml-2 text-sm text-gray-500">({thread.total})</span>}
               </h2>
             </div>
 
@@ -367,16 +533,16 @@ export default function ForumPage() {
               </div>
             ) : (
               <div className="space-y-4 mb-6">
-                {replies && replies.length > 0 ? (
-                  replies.map((reply) => (
-                    <ReplyCard 
+                {thread && thread.replies.length > 0 ? (
+                  thread.replies.map((reply) => (
+                    <ReplyThread
                       key={reply.id}
                       reply={reply}
-                      authorName={getAuthorName(reply.authorId)}
-                      authorAvatar={getUserAvatar(reply.authorId)}
-                      timeAgo={getTimeAgo(reply.createdAt)}
                       currentUserId={user.id}
-                      isAdmin={user.role === "admin"}
+                      canModerate={can("forum:moderate")}
+                      canReply={canReply}
+                      onReply={handleReplyTo}
+                      onQuote={handleQuote}
                     />
                   ))
                 ) : (
@@ -386,48 +552,77 @@ export default function ForumPage() {
                 )}
 
                 {/* Reply Form */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Sua resposta</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={(e) => {
-                      e.preventDefault();
-                      const formData = new FormData(e.currentTarget);
-                      const content = formData.get('content') as string;
-                      if (content.trim()) {
-                        handleSendReply(content);
-                        (e.target as HTMLFormElement).reset();
-                      }
-                    }}>
-                      <div className="space-y-4">
-                        <textarea
-                          name="content"
-                          placeholder="Escreva sua resposta aqui..."
-                          className="w-full min-h-[120px] p-4 rounded-md border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-y"
-                          required
-                        ></textarea>
-                        <Button 
-                          type="submit" 
-                          className="flex items-center gap-1"
-                          disabled={createReplyMutation.isPending}
-                        >
-                          {createReplyMutation.isPending ? (
-                            <>
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                              <span>Enviando...</span>
-                            </>
-                          ) : (
-                            <>
-                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m22 2-7 20-4-9-9-4Z"/><path d="M22 2 11 13"/></svg>
-                              <span>Enviar resposta</span>
-                            </>
+                {canReply && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Sua resposta</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <form ref={replyFormRef} onSubmit={(e) => {
+                        e.preventDefault();
+                        const formData = new FormData(e.currentTarget);
+                        const content = formData.get('content') as string;
+                        if (content.trim()) {
+                          handleSendReply(content);
+                          (e.target as HTMLFormElement).reset();
+                        }
+                      }}>
+                        <div className="space-y-4">
+                          {replyParent && (
+                            <div className="flex items-start justify-between gap-2 rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+                              <div className="min-w-0">
+                                <div>
+                                  Respondendo a <span className="font-medium">{replyParent.authorName}</span>
+                                </div>
+                                {replyQuote && (
+                                  <blockquote className="mt-2 border-l-4 border-primary/30 pl-3 text-gray-500 line-clamp-3">
+                                    {replyQuote.text}
+                                  </blockquote>
+                                )}
+                              </div>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                onClick={() => {
+                                  setReplyParent(null);
+                                  setReplyQuote(null);
+                                }}
+                              >
+                                <X className="h-4 w-4" />
+                                <span className="sr-only">Cancelar</span>
+                              </Button>
+                            </div>
                           )}
-                        </Button>
-                      </div>
-                    </form>
-                  </CardContent>
-                </Card>
+                          <textarea
+                            name="content"
+                            placeholder="Escreva sua resposta aqui..."
+                            className="w-full min-h-[120px] p-4 rounded-md border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-y"
+                            required
+                          ></textarea>
+                          <Button 
+                            type="submit" 
+                            className="flex items-center gap-1"
+                            disabled={createReplyMutation.isPending}
+                          >
+                            {createReplyMutation.isPending ? (
+                              <>
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                <span>Enviando...</span>
+                              </>
+                            ) : (
+                              <>
+                                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m22 2-7 20-4-9-9-4Z"/><path d="M22 2 11 13"/></svg>
+                                <span>Enviar resposta</span>
+                              </>
+                            )}
+                          </Button>
+                        </div>
+                      </form>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             )}
           </>
@@ -437,9 +632,27 @@ export default function ForumPage() {
       <TopicModal
         open={showTopicModal}
         onOpenChange={setShowTopicModal}
-        userId={user.id}
         topic={currentTopic}
       />
+
+      {selectedTopic && (
+        <HideContentDialog
+          open={showHideDialog}
+          onOpenChange={setShowHideDialog}
+          title="Ocultar tópico"
+          isPending={topicVisibilityMutation.isPending}
+          onConfirm={(reason) => topicVisibilityMutation.mutate({ id: selectedTopic.id, reason })}
+        />
+      )}
+
+      {selectedTopic && (
+        <ReportDialog
+          open={showReportDialog}
+          onOpenChange={setShowReportDialog}
+          entityType="forum_topic"
+          entityId={selectedTopic.id}
+        />
+      )}
     </Layout>
   );
 }
@@ -4,6 +4,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import Layout from "@/components/layout/Layout";
 import AnimatedLogo from "@/components/home/AnimatedLogo";
+import ResponsiveImage from "@/components/media/ResponsiveImage";
 import { Button } from "@/components/ui/button";
 import { 
   Card, 
@@ -12,8 +13,8 @@ import {
   CardHeader, 
   CardTitle 
 } from "@/components/ui/card";
-import { Event } from "@shared/schema";
-import { Calendar, Users, BookOpen, MapPin, Clock } from "lucide-react";
+import { Event, PrayerRequestView } from "@shared/schema";
+import { Calendar, Users, BookOpen, MapPin, Clock, HandHeart } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
@@ -39,6 +40,16 @@ export default function HomePage() {
       return res.json();
     }
   });
+
+  // Buscar pedidos de oração públicos
+  const { data: prayerRequests } = useQuery<PrayerRequestView[]>({
+    queryKey: ["/api/prayer-requests/public"],
+    queryFn: async () => {
+      const res = await fetch("/api/prayer-requests/public");
+      if (!res.ok) throw new Error("Failed to fetch prayer requests");
+      return res.json();
+    }
+  });
   
   // Configura o favicon dinamicamente
   useEffect(() => {
@@ -120,10 +131,12 @@ export default function HomePage() {
       {/* Hero Section */}
       <section className="py-16 md:py-24 relative overflow-hidden">
         {heroImageUrl && (
-          <div 
-            className="absolute inset-0 bg-no-repeat bg-cover bg-center opacity-20 -z-10"
-            style={{ backgroundImage: `url(${heroImageUrl})` }}
-          >
+          <div className="absolute inset-0 opacity-20 -z-10">
+            <ResponsiveImage
+              src={heroImageUrl}
+              alt=""
+              className="absolute inset-0 h-full w-full object-cover object-center"
+            />
             <div className="absolute inset-0 bg-gradient-to-b from-white to-transparent" />
           </div>
         )}
@@ -316,6 +329,53 @@ export default function HomePage() {
           </div>
         </div>
       </motion.section>
+
+      {/* Prayer Requests Section */}
+      {prayerRequests && prayerRequests.length > 0 && (
+        <motion.section 
+          initial="offscreen"
+          whileInView="onscreen"
+          viewport={{ once: true, amount: 0.3 }}
+          variants={sectionVariants}
+          className="py-16 bg-gray-50"
+        >
+          <div className="container mx-auto px-4">
+            <div className="text-center mb-12">
+              <h2 className="text-3xl font-serif font-bold mb-4">Pedidos de Oração</h2>
+              <p className="text-gray-600 max-w-2xl mx-auto">
+                Ore conosco por estas necessidades da nossa comunidade
+              </p>
+            </div>
+
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-5xl mx-auto">
+              {prayerRequests.slice(0, 3).map((request) => (
+                <Card key={request.id} className="h-full flex flex-col">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">{request.title}</CardTitle>
+                    <CardDescription>{request.authorName ?? "Anônimo"}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex-grow space-y-4">
+                    <p className="text-gray-600 text-sm line-clamp-4">{request.content}</p>
+                    <div className="flex items-center text-sm text-primary">
+                      <HandHeart className="w-4 h-4 mr-1" />
+                      {request.prayerCount === 1 ? "1 pessoa orou" : `${request.prayerCount} pessoas oraram`}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="text-center mt-8">
+              <Button variant="outline" asChild>
+                <a href="/prayer">
+                  <HandHeart className="w-4 h-4 mr-2" />
+                  {user ? "Ver todos os pedidos" : "Entre para orar e fazer seu pedido"}
+                </a>
+              </Button>
+            </div>
+          </div>
+        </motion.section>
+      )}
       
       {/* Call to Action */}
       <motion.section 
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Flag, Loader2, Shield } from "lucide-react";
+import Layout from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/use-auth";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { ContentReportView, ReportStatus } from "@shared/schema";
+import ReportCard from "@/components/moderation/ReportCard";
+
+const statusTabs: { value: ReportStatus; label: string; empty: string }[] = [
+  { value: "open", label: "Pendentes", empty: "Nenhuma denúncia pendente" },
+  { value: "resolved", label: "Resolvidas", empty: "Nenhuma denúncia resolvida" },
+  { value: "dismissed", label: "Arquivadas", empty: "Nenhuma denúncia arquivada" },
+];
+
+export default function ModerationPage() {
+  const { can } = useAuth();
+  const canModerate = can("forum:moderate");
+  const [status, setStatus] = useState<ReportStatus>("open");
+
+  const { data: reports, isLoading } = useQuery<ContentReportView[]>({
+    queryKey: ["/api/forum/reports", { status }],
+    queryFn: async () => {
+      const res = await fetch(`/api/forum/reports?status=${status}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch reports");
+      return res.json();
+    },
+    enabled: canModerate,
+  });
+
+  if (!canModerate) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center h-96">
+          <Shield className="h-16 w-16 text-gray-300 mb-4" />
+          <h1 className="text-2xl font-bold text-gray-700 mb-2">Acesso Restrito</h1>
+          <p className="text-gray-500 text-center max-w-md">
+            Esta área é restrita aos moderadores do fórum. Você não tem permissão para visualizar este conteúdo.
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const currentTab = statusTabs.find((tab) => tab.value === status)!;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-serif font-bold text-gray-700 mb-2">
+            Moderação
+          </h1>
+          <p className="text-gray-500">
+            Denúncias de tópicos e respostas do fórum feitas pelos membros
+          </p>
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+          <TabsList>
+            {statusTabs.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-96">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : reports && reports.length > 0 ? (
+          <div className="space-y-4">
+            {reports.map((report) => (
+              <ReportCard key={report.id} report={report} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500 flex flex-col items-center">
+            <Flag className="h-12 w-12 text-gray-300 mb-2" />
+            <p>{currentTab.empty}</p>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
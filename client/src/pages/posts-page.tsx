@@ -19,11 +19,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import PostModal from "@/components/posts/PostModal";
+import ResponsiveImage from "@/components/media/ResponsiveImage";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 export default function PostsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [showPostModal, setShowPostModal] = useState(false);
@@ -135,6 +136,10 @@ export default function PostsPage() {
 
   if (!user) return null;
 
+  // Quem escreve pode alterar a própria postagem; editores alteram qualquer uma
+  const canModify = (post: Post) =>
+    can("posts:publish") || (can("posts:write") && post.authorId === user.id);
+
   return (
     <Layout title="Postagens">
       <div className="space-y-6">
@@ -142,10 +147,12 @@ export default function PostsPage() {
           <h1 className="text-3xl font-serif font-bold text-gray-700">
             Postagens
           </h1>
-          <Button onClick={handleAddPost} className="flex items-center gap-1">
-            <Plus size={16} />
-            <span>Nova Postagem</span>
-          </Button>
+          {can("posts:write") && (
+            <Button onClick={handleAddPost} className="flex items-center gap-1">
+              <Plus size={16} />
+              <span>Nova Postagem</span>
+            </Button>
+          )}
         </div>
 
         <div className="flex flex-col sm:flex-row gap-4">
@@ -184,9 +191,10 @@ export default function PostsPage() {
                 }`}>
                   {post.imageUrl && (
                     <div className="h-48 overflow-hidden">
-                      <img 
+                      <ResponsiveImage 
                         src={post.imageUrl} 
                         alt={post.title} 
+                        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                         className="w-full h-full object-cover"
                       />
                     </div>
@@ -201,33 +209,37 @@ export default function PostsPage() {
                         )}
                         <CardTitle className="text-lg leading-tight">{post.title}</CardTitle>
                       </div>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon" className="h-8 w-8">
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-more-vertical"><circle cx="12" cy="5" r="1"/><circle cx="12" cy="12" r="1"/><circle cx="12" cy="19" r="1"/></svg>
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => handleEditPost(post)}>
-                            Editar
-                          </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => handleTogglePublish(post.id, post.isPublished)}
-                          >
-                            {post.isPublished ? (
-                              <>Despublicar</>
-                            ) : (
-                              <>Publicar</>
+                      {canModify(post) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-more-vertical"><circle cx="12" cy="5" r="1"/><circle cx="12" cy="12" r="1"/><circle cx="12" cy="19" r="1"/></svg>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleEditPost(post)}>
+                              Editar
+                            </DropdownMenuItem>
+                            {can("posts:publish") && (
+                              <DropdownMenuItem 
+                                onClick={() => handleTogglePublish(post.id, post.isPublished)}
+                              >
+                                {post.isPublished ? (
+                                  <>Despublicar</>
+                                ) : (
+                                  <>Publicar</>
+                                )}
+                              </DropdownMenuItem>
                             )}
-                          </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => handleDeletePost(post.id)} 
-                            className="text-red-500"
-                          >
-                            Excluir
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                            <DropdownMenuItem 
+                              onClick={() => handleDeletePost(post.id)} 
+                              className="text-red-500"
+                            >
+                              Excluir
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent className="pb-4">
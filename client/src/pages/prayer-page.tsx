@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { HandHeart, Loader2, Plus } from "lucide-react";
+import Layout from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { prayerVisibilities, type PrayerListScope, type PrayerRequestView } from "@shared/schema";
+import PrayerRequestCard from "@/components/prayer/PrayerRequestCard";
+import PrayerRequestModal from "@/components/prayer/PrayerRequestModal";
+import { prayerVisibilityLabels } from "@/components/prayer/labels";
+
+const emptyMessages: Record<PrayerListScope, string> = {
+  community: "Nenhum pedido de oração no momento",
+  mine: "Você ainda não fez pedidos de oração",
+  pastoral: "Nenhum pedido encontrado",
+};
+
+export default function PrayerPage() {
+  const { can } = useAuth();
+  const isPastoral = can("prayer:pastoral");
+
+  const [scope, setScope] = useState<PrayerListScope>("community");
+  const [visibilityFilter, setVisibilityFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [showModal, setShowModal] = useState(false);
+  const [editingRequest, setEditingRequest] = useState<PrayerRequestView | undefined>(undefined);
+
+  const { data: requests, isLoading } = useQuery<PrayerRequestView[]>({
+    queryKey: ["/api/prayer-requests", { scope }],
+    queryFn: async () => {
+      const res = await fetch(`/api/prayer-requests?scope=${scope}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch prayer requests");
+      return res.json();
+    },
+  });
+
+  // A lista pastoral traz todos os pedidos; os filtros ajudam a acompanhar
+  const filteredRequests = requests?.filter((request) =>
+    scope !== "pastoral" || (
+      (visibilityFilter === "all" || request.visibility === visibilityFilter) &&
+      (statusFilter === "all" ||
+        (statusFilter === "expired" ? request.expired : !request.expired && request.status === statusFilter))
+    ));
+
+  const handleNewRequest = () => {
+    setEditingRequest(undefined);
+    setShowModal(true);
+  };
+
+  const handleEditRequest = (request: PrayerRequestView) => {
+    setEditingRequest(request);
+    setShowModal(true);
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-serif font-bold text-gray-700 mb-2">
+              Pedidos de Oração
+            </h1>
+            <p className="text-gray-500">
+              Compartilhe suas necessidades e ore pelos irmãos
+            </p>
+          </div>
+          <Button onClick={handleNewRequest} className="flex items-center gap-1">
+            <Plus size={16} />
+            <span>Novo Pedido</span>
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+          <Tabs value={scope} onValueChange={(value) => setScope(value as PrayerListScope)}>
+            <TabsList>
+              <TabsTrigger value="community">Comunidade</TabsTrigger>
+              <TabsTrigger value="mine">Meus pedidos</TabsTrigger>
+              {isPastoral && <TabsTrigger value="pastoral">Equipe pastoral</TabsTrigger>}
+            </TabsList>
+          </Tabs>
+
+          {scope === "pastoral" && (
+            <div className="flex gap-4 sm:ml-auto">
+              <Select value={visibilityFilter} onValueChange={setVisibilityFilter}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as visibilidades</SelectItem>
+                  {prayerVisibilities.map((visibility) => (
+                    <SelectItem key={visibility} value={visibility}>
+                      {prayerVisibilityLabels[visibility].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full sm:w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  <SelectItem value="open">Em oração</SelectItem>
+                  <SelectItem value="answered">Respondidos</SelectItem>
+                  <SelectItem value="expired">Expirados</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-96">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredRequests && filteredRequests.length > 0 ? (
+          <div className="space-y-4">
+            {filteredRequests.map((request) => (
+              <PrayerRequestCard
+                key={request.id}
+                request={request}
+                canManage={request.isOwn || isPastoral}
+                onEdit={handleEditRequest}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500 flex flex-col items-center">
+            <HandHeart className="h-12 w-12 text-gray-300 mb-2" />
+            <p>{emptyMessages[scope]}</p>
+          </div>
+        )}
+      </div>
+
+      <PrayerRequestModal
+        open={showModal}
+        onOpenChange={setShowModal}
+        request={editingRequest}
+      />
+    </Layout>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import AnimatedLogo from "@/components/home/AnimatedLogo";
+import { Eye, EyeOff, KeyRound } from "lucide-react";
+
+// A política completa de senha é validada no servidor
+const resetPasswordSchema = z.object({
+  password: z.string().min(1, { message: "Informe a nova senha" }),
+  confirmPassword: z.string().min(1, { message: "Confirme a nova senha" }),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não conferem",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [showPassword, setShowPassword] = useState(false);
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormData) => {
+      const res = await apiRequest("POST", "/api/reset-password", {
+        token,
+        password: data.password,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Senha redefinida",
+        description: "Agora você já pode entrar com a nova senha.",
+      });
+      navigate("/auth");
+    },
+    onError: (error) => {
+      if (error instanceof ApiError && error.fieldErrors.password) {
+        form.setError("password", { message: error.fieldErrors.password });
+        return;
+      }
+
+      toast({
+        title: "Não foi possível redefinir a senha",
+        description: error instanceof ApiError && error.body.message ? error.body.message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ResetPasswordFormData) => {
+    resetPasswordMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <AnimatedLogo className="scale-75" />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Redefinir senha</CardTitle>
+            <CardDescription>
+              {token
+                ? "Escolha uma nova senha para a sua conta."
+                : "Este link de redefinição é inválido. Solicite um novo na página de login."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {token ? (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nova senha</FormLabel>
+                        <div className="relative">
+                          <FormControl>
+                            <Input
+                              type={showPassword ? "text" : "password"}
+                              placeholder="Digite a nova senha"
+                              {...field}
+                              disabled={resetPasswordMutation.isPending}
+                            />
+                          </FormControl>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="absolute right-0 top-0 h-full"
+                            onClick={() => setShowPassword(!showPassword)}
+                          >
+                            {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                        <FormDescription>
+                          Use letras e números para uma senha mais segura.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirmar nova senha</FormLabel>
+                        <FormControl>
+                          <Input
+                            type={showPassword ? "text" : "password"}
+                            placeholder="Digite a senha novamente"
+                            {...field}
+                            disabled={resetPasswordMutation.isPending}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    {resetPasswordMutation.isPending ? "Salvando..." : "Salvar nova senha"}
+                  </Button>
+                </form>
+              </Form>
+            ) : (
+              <Button asChild className="w-full">
+                <Link href="/auth">Ir para o login</Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Loader2, Save, User, Lock, Bell, Shield, Github } from "lucide-react";
+import { Loader2, Save, User, Lock, Bell, Github } from "lucide-react";
 import Layout from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/use-auth";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -24,25 +24,23 @@ import {
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-
-// Form schema for profile settings
-const profileSchema = z.object({
-  name: z.string().min(3, "Nome deve ter no mínimo 3 caracteres"),
-  email: z.string().email("Email inválido"),
-  avatarUrl: z.string().url("URL inválida").optional().or(z.literal("")),
-});
+import { updateProfileSchema, type UpdateProfileData, type User as SelectUser } from "@shared/schema";
+import FileUploadButton from "@/components/media/FileUploadButton";
+import TwoFactorSettings from "@/components/two-factor/TwoFactorSettings";
+import ActiveSessions from "@/components/sessions/ActiveSessions";
 
 // Form schema for password change
+// The password policy itself is enforced by the server
 const passwordSchema = z.object({
-  currentPassword: z.string().min(6, "Senha deve ter no mínimo 6 caracteres"),
-  newPassword: z.string().min(6, "Senha deve ter no mínimo 6 caracteres"),
-  confirmPassword: z.string().min(6, "Senha deve ter no mínimo 6 caracteres"),
+  currentPassword: z.string().min(1, "Informe a senha atual"),
+  newPassword: z.string().min(1, "Informe a nova senha"),
+  confirmPassword: z.string().min(1, "Confirme a nova senha"),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "As senhas não coincidem",
   path: ["confirmPassword"],
 });
 
-type ProfileFormData = z.infer<typeof profileSchema>;
+type ProfileFormData = UpdateProfileData;
 type PasswordFormData = z.infer<typeof passwordSchema>;
 
 export default function SettingsPage() {
@@ -52,7 +50,7 @@ export default function SettingsPage() {
   
   // Set up form for profile settings
   const profileForm = useForm<ProfileFormData>({
-    resolver: zodResolver(profileSchema),
+    resolver: zodResolver(updateProfileSchema),
     defaultValues: {
       name: user?.name || "",
       email: user?.email || "",
@@ -71,7 +69,7 @@ export default function SettingsPage() {
   });
 
   // Update form when user changes
-  React.useEffect(() => {
+  useEffect(() => {
     if (user) {
       profileForm.reset({
         name: user.name,
@@ -85,11 +83,11 @@ export default function SettingsPage() {
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
       if (!user) throw new Error("User not authenticated");
-      const res = await apiRequest("PATCH", `/api/users/${user.id}`, data);
+      const res = await apiRequest("PATCH", "/api/user", data);
       return await res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    onSuccess: (updatedUser: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
       toast({
         title: "Perfil atualizado",
         description: "Suas informações de perfil foram atualizadas com sucesso.",
@@ -105,22 +103,29 @@ export default function SettingsPage() {
     },
   });
 
-  // Password change mutation (mock - would need to be implemented in the API)
+  // Password change mutation
   const changePasswordMutation = useMutation({
-    mutationFn: async (data: PasswordFormData) => {
-      // This endpoint would need to be implemented in the API
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
-      return true;
+    mutationFn: async ({ currentPassword, newPassword }: PasswordFormData) => {
+      const res = await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+      return await res.json();
     },
     onSuccess: () => {
       passwordForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
       toast({
         title: "Senha alterada",
-        description: "Sua senha foi alterada com sucesso.",
+        description: "Sua senha foi alterada com sucesso. As outras sessões foram encerradas.",
         variant: "default",
       });
     },
     onError: (error) => {
+      if (error instanceof ApiError && Object.keys(error.fieldErrors).length > 0) {
+        for (const [field, message] of Object.entries(error.fieldErrors)) {
+          passwordForm.setError(field as keyof PasswordFormData, { message });
+        }
+        return;
+      }
+
       toast({
         title: "Erro",
         description: `Falha ao alterar senha: ${error.message}`,
@@ -202,12 +207,19 @@ export default function SettingsPage() {
                       name="avatarUrl"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>URL da Foto de Perfil</FormLabel>
-                          <FormControl>
-                            <Input {...field} placeholder="https://exemplo.com/minha-foto.jpg" />
-                          </FormControl>
+                          <FormLabel>Foto de Perfil</FormLabel>
+                          <div className="flex gap-2">
+                            <FormControl>
+                              <Input {...field} value={field.value ?? ""} placeholder="https://exemplo.com/minha-foto.jpg" />
+                            </FormControl>
+                            <FileUploadButton
+                              accept="image/*"
+                              label="Enviar foto"
+                              onUploaded={(uploaded) => profileForm.setValue("avatarUrl", uploaded.url, { shouldDirty: true })}
+                            />
+                          </div>
                           <FormDescription>
-                            URL da imagem que será exibida como seu avatar
+                            Envie uma foto ou informe a URL da imagem que será exibida como seu avatar
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -318,21 +330,11 @@ export default function SettingsPage() {
 
                 <Separator className="my-6" />
 
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Sessões Ativas</h3>
-                  <div className="border rounded-md p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <Shield className="h-8 w-8 text-primary" />
-                        <div>
-                          <h4 className="font-medium">Este dispositivo</h4>
-                          <p className="text-sm text-gray-500">Última atividade: agora</p>
-                        </div>
-                      </div>
-                      <Button variant="destructive" size="sm">Encerrar</Button>
-                    </div>
-                  </div>
-                </div>
+                <TwoFactorSettings />
+
+                <Separator className="my-6" />
+
+                <ActiveSessions />
               </CardContent>
             </Card>
           </TabsContent>
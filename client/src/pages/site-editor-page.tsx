@@ -11,7 +11,7 @@ import SiteConfigEditor from "@/components/site-editor/SiteConfigEditor";
 import { queryClient } from "@/lib/queryClient";
 
 export default function SiteEditorPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("visual");
   
@@ -31,8 +31,8 @@ export default function SiteEditorPage() {
     return setting?.value;
   };
   
-  // Verificar se o usuário é administrador
-  if (user?.role !== "admin") {
+  // Verificar se o usuário pode editar o site
+  if (!can("site:manage")) {
     return (
       <Layout>
         <div className="flex flex-col items-center justify-center min-h-[70vh]">
@@ -29,7 +29,7 @@ import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 export default function StudiesPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("");
@@ -116,6 +116,10 @@ export default function StudiesPage() {
 
   if (!user) return null;
 
+  // Quem escreve pode alterar o próprio estudo; gestores alteram qualquer um
+  const canModify = (study: Study) =>
+    can("studies:manage") || (can("studies:write") && study.authorId === user.id);
+
   return (
     <Layout title="Estudos Bíblicos">
       <div className="space-y-6">
@@ -123,10 +127,12 @@ export default function StudiesPage() {
           <h1 className="text-3xl font-serif font-bold text-gray-700">
             Estudos Bíblicos
           </h1>
-          <Button onClick={handleAddStudy} className="flex items-center gap-1">
-            <Plus size={16} />
-            <span>Novo Estudo</span>
-          </Button>
+          {can("studies:write") && (
+            <Button onClick={handleAddStudy} className="flex items-center gap-1">
+              <Plus size={16} />
+              <span>Novo Estudo</span>
+            </Button>
+          )}
         </div>
 
         <div className="flex flex-col sm:flex-row gap-4 items-center">
@@ -169,24 +175,26 @@ export default function StudiesPage() {
                         </Badge>
                         <CardTitle className="text-lg leading-tight">{study.title}</CardTitle>
                       </div>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon" className="h-8 w-8">
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-more-vertical"><circle cx="12" cy="5" r="1"/><circle cx="12" cy="12" r="1"/><circle cx="12" cy="19" r="1"/></svg>
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => handleEditStudy(study)}>
-                            Editar
-                          </DropdownMenuItem>
-                          <DropdownMenuItem 
-                            onClick={() => handleDeleteStudy(study.id)} 
-                            className="text-red-500"
-                          >
-                            Excluir
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                      {canModify(study) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-more-vertical"><circle cx="12" cy="5" r="1"/><circle cx="12" cy="12" r="1"/><circle cx="12" cy="19" r="1"/></svg>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleEditStudy(study)}>
+                              Editar
+                            </DropdownMenuItem>
+                            <DropdownMenuItem 
+                              onClick={() => handleDeleteStudy(study.id)} 
+                              className="text-red-500"
+                            >
+                              Excluir
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent className="pb-4">
@@ -1,8 +1,9 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Loader2, Search, UserPlus, Check, X, Shield, User } from "lucide-react";
 import Layout from "@/components/layout/Layout";
-import { User as UserType } from "@shared/schema";
+import { User as UserType, adminUpdateUserSchema, type AdminUpdateUserData } from "@shared/schema";
+import { roles, roleLabels, isRole } from "@shared/permissions";
 import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -49,30 +50,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import UserTable from "@/components/users/UserTable";
+import PendingUsersQueue from "@/components/users/PendingUsersQueue";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
-// Form schema for user update
-const userUpdateSchema = z.object({
-  name: z.string().min(3, "Nome deve ter no mínimo 3 caracteres"),
-  email: z.string().email("Email inválido"),
-  role: z.enum(["admin", "member"]),
-});
-
-type UserUpdateFormData = z.infer<typeof userUpdateSchema>;
 
 export default function UsersPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedUser, setSelectedUser] = useState<UserType | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
 
-  // Check if user is admin
-  const isAdmin = user?.role === "admin";
+  // Check if user can manage users
+  const isAdmin = can("users:manage");
 
   const { data: users, isLoading } = useQuery<UserType[]>({
     queryKey: ["/api/users"],
@@ -95,8 +88,8 @@ export default function UsersPage() {
   });
 
   // Set up form for editing user
-  const form = useForm<UserUpdateFormData>({
-    resolver: zodResolver(userUpdateSchema),
+  const form = useForm<AdminUpdateUserData>({
+    resolver: zodResolver(adminUpdateUserSchema),
     defaultValues: {
       name: "",
       email: "",
@@ -105,12 +98,12 @@ export default function UsersPage() {
   });
 
   // Reset form when selected user changes
-  React.useEffect(() => {
+  useEffect(() => {
     if (selectedUser) {
       form.reset({
         name: selectedUser.name,
         email: selectedUser.email,
-        role: selectedUser.role as "admin" | "member",
+        role: isRole(selectedUser.role) ? selectedUser.role : "member",
       });
     }
   }, [selectedUser, form]);
@@ -122,7 +115,7 @@ export default function UsersPage() {
 
   // Update user mutation
   const updateUserMutation = useMutation({
-    mutationFn: async (data: UserUpdateFormData) => {
+    mutationFn: async (data: AdminUpdateUserData) => {
       if (!selectedUser) throw new Error("No user selected");
       const res = await apiRequest("PATCH", `/api/users/${selectedUser.id}`, data);
       return await res.json();
@@ -145,12 +138,66 @@ export default function UsersPage() {
     },
   });
 
-  const onSubmit = (data: UserUpdateFormData) => {
+  // Unlock mutation, for accounts locked after too many failed logins
+  const unlockUserMutation = useMutation({
+    mutationFn: async (user: UserType) => {
+      const res = await apiRequest("POST", `/api/users/${user.id}/unlock`);
+      return await res.json();
+    },
+    onSuccess: (user: UserType) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Login desbloqueado",
+        description: `${user.name} já pode entrar novamente.`,
+        variant: "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: `Falha ao desbloquear usuário: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutUserMutation = useMutation({
+    mutationFn: async (user: UserType) => {
+      const res = await apiRequest("POST", `/api/users/${user.id}/logout`);
+      return await res.json();
+    },
+    onSuccess: (user: UserType) => {
+      toast({
+        title: "Sessões encerradas",
+        description: `${user.name} foi desconectado de todos os dispositivos.`,
+        variant: "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: `Falha ao encerrar sessões: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogoutUser = (user: UserType) => {
+    if (confirm(`Encerrar todas as sessões de ${user.name}? Será preciso entrar novamente em todos os dispositivos.`)) {
+      logoutUserMutation.mutate(user);
+    }
+  };
+
+  const onSubmit = (data: AdminUpdateUserData) => {
     updateUserMutation.mutate(data);
   };
 
+  // Pending registrations are reviewed in their own queue
+  const pendingUsers = users?.filter(user => user.status === "pending") ?? [];
+
   // Filter users based on search term
   const filteredUsers = users?.filter(user => {
+    if (user.status === "pending") return false;
     return searchTerm === "" || 
       user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -182,6 +229,8 @@ export default function UsersPage() {
           </h1>
         </div>
 
+        {pendingUsers.length > 0 && <PendingUsersQueue users={pendingUsers} />}
+
         <div className="relative w-full max-w-md">
           <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
           <Input
@@ -203,7 +252,12 @@ export default function UsersPage() {
             </CardHeader>
             <CardContent>
               {filteredUsers && filteredUsers.length > 0 ? (
-                <UserTable users={filteredUsers} onEditUser={handleEditUser} />
+                <UserTable
+                  users={filteredUsers}
+                  onEditUser={handleEditUser}
+                  onUnlockUser={(user) => unlockUserMutation.mutate(user)}
+                  onLogoutUser={handleLogoutUser}
+                />
               ) : (
                 <div className="text-center py-12 text-gray-500 flex flex-col items-center">
                   <User className="h-12 w-12 mb-4 text-gray-300" />
@@ -269,8 +323,9 @@ export default function UsersPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="admin">Administrador</SelectItem>
-                        <SelectItem value="member">Membro</SelectItem>
+                        {roles.map((role) => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -0,0 +1,13 @@
+CREATE TABLE "media" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"url" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"width" integer,
+	"height" integer,
+	"alt_text" text,
+	"uploaded_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
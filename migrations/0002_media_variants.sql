@@ -0,0 +1 @@
+ALTER TABLE "media" ADD COLUMN "variants" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
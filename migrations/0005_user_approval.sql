@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "status" text DEFAULT 'approved' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "reviewed_by" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "rejection_reason" text;
\ No newline at end of file
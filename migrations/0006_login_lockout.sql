@@ -0,0 +1,15 @@
+CREATE TABLE "login_lock_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event" text NOT NULL,
+	"scope" text NOT NULL,
+	"user_id" integer,
+	"username" text,
+	"ip_address" text,
+	"failed_attempts" integer,
+	"locked_until" timestamp,
+	"actor_id" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "failed_login_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "locked_until" timestamp;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "two_factor_credentials" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"secret" text NOT NULL,
+	"recovery_code_hashes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_used_step" integer,
+	"confirmed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "two_factor_credentials_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_enabled" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer,
+	"entity_label" text,
+	"changes" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now()
+);
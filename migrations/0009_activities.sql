@@ -0,0 +1,9 @@
+CREATE TABLE "activities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"actor_id" integer NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
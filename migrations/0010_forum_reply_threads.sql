@@ -0,0 +1,3 @@
+ALTER TABLE "forum_replies" ADD COLUMN "parent_reply_id" integer;--> statement-breakpoint
+ALTER TABLE "forum_replies" ADD COLUMN "quoted_reply_id" integer;--> statement-breakpoint
+ALTER TABLE "forum_replies" ADD COLUMN "quoted_text" text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "forum_replies" ADD COLUMN "hidden_at" timestamp;--> statement-breakpoint
+ALTER TABLE "forum_replies" ADD COLUMN "hidden_by" integer;--> statement-breakpoint
+ALTER TABLE "forum_replies" ADD COLUMN "hidden_reason" text;--> statement-breakpoint
+ALTER TABLE "forum_topics" ADD COLUMN "is_pinned" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "forum_topics" ADD COLUMN "is_locked" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "forum_topics" ADD COLUMN "hidden_at" timestamp;--> statement-breakpoint
+ALTER TABLE "forum_topics" ADD COLUMN "hidden_by" integer;--> statement-breakpoint
+ALTER TABLE "forum_topics" ADD COLUMN "hidden_reason" text;
\ No newline at end of file
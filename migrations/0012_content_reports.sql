@@ -0,0 +1,14 @@
+CREATE TABLE "content_reports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"reporter_id" integer NOT NULL,
+	"reason" text NOT NULL,
+	"details" text,
+	"status" text DEFAULT 'open' NOT NULL,
+	"resolution" text,
+	"moderator_note" text,
+	"resolved_by" integer,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "forum_reactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "forum_reactions_once_per_user" UNIQUE("entity_type","entity_id","user_id","kind")
+);
@@ -0,0 +1,20 @@
+CREATE TABLE "prayer_intercessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"request_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "prayer_intercessions_once_per_user" UNIQUE("request_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "prayer_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"author_id" integer NOT NULL,
+	"visibility" text DEFAULT 'members' NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"testimony" text,
+	"answered_at" timestamp,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,63 @@
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Activity, ActivityFeedItem, ActivityFeedPage, ActivityType, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// What each activity is about, so deleting the entity can remove its activities
+const entityTypes: Record<ActivityType, string> = {
+  new_member: "user",
+  new_study: "study",
+  new_event: "event",
+  new_post: "post",
+  new_forum: "forum_topic",
+};
+
+export async function recordActivity(type: ActivityType, actorId: number, entity: { id: number; title: string }) {
+  await storage.createActivity({
+    type,
+    actorId,
+    entityType: entityTypes[type],
+    entityId: entity.id,
+    title: entity.title,
+  });
+}
+
+// A deleted study or event shouldn't keep showing up on the dashboard
+export async function removeActivitiesFor(type: ActivityType, entityId: number) {
+  await storage.deleteActivitiesFor(entityTypes[type], entityId);
+}
+
+export async function activityFeedPage(options: { before?: number; limit: number }): Promise<ActivityFeedPage> {
+  // One extra row tells whether there is an older page
+  const rows = await storage.listActivities({ ...options, limit: options.limit + 1 });
+  const page = rows.slice(0, options.limit);
+
+  const actorIds = Array.from(new Set(page.map((activity) => activity.actorId)));
+  const actors = new Map<number, User>();
+  for (const id of actorIds) {
+    const actor = await storage.getUser(id);
+    if (actor) actors.set(id, actor);
+  }
+
+  const now = new Date();
+  const items = page.map((activity: Activity): ActivityFeedItem => {
+    const actor = actors.get(activity.actorId);
+    const createdAt = activity.createdAt ?? now;
+    return {
+      id: activity.id,
+      type: activity.type as ActivityType,
+      actorName: actor?.name ?? "Usuário removido",
+      actorAvatarUrl: actor?.avatarUrl ?? null,
+      entityType: activity.entityType,
+      entityId: activity.entityId,
+      title: activity.title,
+      createdAt: createdAt.toISOString(),
+      timeAgo: formatDistanceToNow(createdAt, { addSuffix: true, locale: ptBR }),
+    };
+  });
+
+  return {
+    items,
+    nextCursor: rows.length > options.limit ? page[page.length - 1].id : null,
+  };
+}
@@ -0,0 +1,73 @@
+import type { Request } from "express";
+import type { AuditAction, AuditChanges, AuditEntityType } from "@shared/schema";
+import { storage } from "./storage";
+
+// Bookkeeping columns that change on their own and say nothing about the edit
+const ignoredFields = new Set(["id", "createdAt", "updatedAt"]);
+// Recorded as changed, never with their values
+const redactedFields = new Set(["password", "secret", "recoveryCodeHashes"]);
+const redacted = "[redacted]";
+
+type Entity = { id: number } & Record<string, unknown>;
+
+// JSON round trip so dates and nested objects compare and store the same way
+function normalize(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+export function diffEntities(before: Record<string, unknown> | null, after: Record<string, unknown> | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of Array.from(fields)) {
+    if (ignoredFields.has(field)) continue;
+
+    const oldValue = before ? normalize(before[field]) : null;
+    const newValue = after ? normalize(after[field]) : null;
+    if (before && after && JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    changes[field] = redactedFields.has(field)
+      ? { before: before ? redacted : null, after: after ? redacted : null }
+      : { before: oldValue, after: newValue };
+  }
+  return changes;
+}
+
+function entityLabel(entity: Entity) {
+  for (const field of ["title", "name", "key", "fileName", "username"]) {
+    if (typeof entity[field] === "string") return entity[field] as string;
+  }
+  return null;
+}
+
+interface AuditInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  // The entity as it was before the change (updates and deletes)
+  before?: object | null;
+  // The entity as it is after the change (creates and updates)
+  after?: object | null;
+  // Defaults to the logged-in user; registration passes the new account
+  actorId?: number | null;
+}
+
+// Records who did what to which entity. Updates that change nothing are skipped.
+export async function recordAudit(req: Request, { action, entityType, before, after, actorId }: AuditInput) {
+  const oldEntity = (before ?? null) as Entity | null;
+  const newEntity = (after ?? null) as Entity | null;
+  const entity = newEntity ?? oldEntity;
+  if (!entity) return;
+
+  const changes = diffEntities(oldEntity, newEntity);
+  if (action === "update" && Object.keys(changes).length === 0) return;
+
+  await storage.createAuditLogEntry({
+    actorId: actorId !== undefined ? actorId : req.user?.id ?? null,
+    action,
+    entityType,
+    entityId: entity.id,
+    entityLabel: entityLabel(entity),
+    changes,
+    ipAddress: req.ip ?? null,
+  });
+}
@@ -5,7 +5,12 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { z } from "zod";
+import { User as SelectUser, registerUserSchema, updateProfileSchema } from "@shared/schema";
+import { passwordSchema } from "./password-policy";
+import { loginLockRemaining, recordLoginFailure, recordLoginSuccess, sendLoginLocked, type LoginLockInfo } from "./login-throttle";
+import { trackSession } from "./sessions";
+import { recordAudit } from "./audit";
 
 declare global {
   namespace Express {
@@ -13,15 +18,27 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Written by passport.serializeUser below
+    passport?: { user?: number | { id: number; sessionVersion: number } };
+    // Password already checked, waiting for the second factor
+    pendingTwoFactor?: { userId: number; expiresAt: number };
+  }
+}
+
+// Time allowed between the password and the authenticator code
+const pendingTwoFactorTtlMs = 5 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
@@ -44,15 +61,30 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSession);
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
+        const ip = req.ip || "unknown";
         const user = await storage.getUserByUsername(username);
+
+        // While locked, attempts are refused without checking the password
+        const lockRemaining = loginLockRemaining(ip, user);
+        if (lockRemaining > 0) {
+          const info: LoginLockInfo = { message: "Muitas tentativas de login", lockRemaining };
+          return done(null, false, info);
+        }
+
         if (!user || !(await comparePasswords(password, user.password))) {
+          await recordLoginFailure(ip, username, user);
           return done(null, false);
-        } else {
+        } else if (user.twoFactorEnabled) {
+          // The failure counters also lock the code step, so they are only
+          // cleared once /api/login/2fa accepts the second factor
           return done(null, user);
+        } else {
+          return done(null, await recordLoginSuccess(user));
         }
       } catch (error) {
         return done(error);
@@ -60,27 +92,44 @@ export function setupAuth(app: Express) {
     }),
   );
 
-  passport.serializeUser((user, done) => done(null, user.id));
-  passport.deserializeUser(async (id: number, done) => {
+  // The session keeps the user's session version so that a password change
+  // invalidates every session started before it
+  passport.serializeUser((user, done) => done(null, { id: user.id, sessionVersion: user.sessionVersion }));
+  passport.deserializeUser(async (data: number | { id: number; sessionVersion: number }, done) => {
     try {
+      const { id, sessionVersion } = typeof data === "number" ? { id: data, sessionVersion: 0 } : data;
       const user = await storage.getUser(id);
+      if (!user || user.sessionVersion !== sessionVersion) {
+        return done(null, false);
+      }
       done(null, user);
     } catch (error) {
       done(error);
     }
   });
 
+  const registerSchema = registerUserSchema.extend({ password: passwordSchema }).strict();
+
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const data = registerSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(data.username);
       if (existingUser) {
-        return res.status(400).json({ message: "Usuário já existe" });
+        return res.status(400).json({
+          message: "Usuário já existe",
+          errors: [{ path: ["username"], message: "Este nome de usuário já está em uso" }],
+        });
       }
 
+      // New accounts are always members and wait for an admin to approve them
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...data,
+        role: "member",
+        status: "pending",
+        password: await hashPassword(data.password),
       });
+      await recordAudit(req, { action: "create", entityType: "user", after: user, actorId: user.id });
 
       req.login(user, (err) => {
         if (err) return next(err);
@@ -89,14 +138,25 @@ export function setupAuth(app: Express) {
         res.status(201).json(userWithoutPassword);
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados de cadastro inválidos", errors: error.errors });
+      }
       next(error);
     }
   });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: LoginLockInfo) => {
       if (err) return next(err);
+      if (!user && info?.lockRemaining) return sendLoginLocked(res, info.lockRemaining);
       if (!user) return res.status(401).json({ message: "Credenciais inválidas" });
+
+      // Right password, but the session only remembers who is mid-login until
+      // the authenticator code arrives at /api/login/2fa
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + pendingTwoFactorTtlMs };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
       
       req.login(user, (err) => {
         if (err) return next(err);
@@ -120,4 +180,73 @@ export function setupAuth(app: Express) {
     const { password, ...userWithoutPassword } = req.user as SelectUser;
     res.json(userWithoutPassword);
   });
+
+  const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1, "Informe a senha atual"),
+    newPassword: passwordSchema,
+  });
+
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.sendStatus(404);
+
+      if (!(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({
+          message: "Senha atual incorreta",
+          errors: [{ path: ["currentPassword"], message: "Senha atual incorreta" }],
+        });
+      }
+      if (currentPassword === newPassword) {
+        return res.status(400).json({
+          message: "A nova senha deve ser diferente da atual",
+          errors: [{ path: ["newPassword"], message: "A nova senha deve ser diferente da atual" }],
+        });
+      }
+
+      const updatedUser = await storage.updateUser(user.id, {
+        password: await hashPassword(newPassword),
+        sessionVersion: user.sessionVersion + 1,
+      });
+      await recordAudit(req, { action: "update", entityType: "user", before: user, after: updatedUser });
+
+      // Log this session back in with the new version; all others are now invalid
+      req.login(updatedUser!, (err) => {
+        if (err) return next(err);
+        res.status(200).json({ message: "Senha alterada" });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Senha inválida", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Self-service profile update for the logged in user
+  app.patch("/api/user", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { avatarUrl, ...profileData } = updateProfileSchema.partial().strict().parse(req.body);
+      const updatedUser = await storage.updateUser(req.user!.id, {
+        ...profileData,
+        ...(avatarUrl !== undefined && { avatarUrl: avatarUrl || null }),
+      });
+      if (!updatedUser) return res.sendStatus(404);
+      await recordAudit(req, { action: "update", entityType: "user", before: req.user, after: updatedUser });
+
+      // Don't send password in response
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados de perfil inválidos", errors: error.errors });
+      }
+      next(error);
+    }
+  });
 }
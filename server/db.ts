@@ -0,0 +1,18 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Drizzle Postgres database built on our schema (node-postgres, pglite, ...)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function connectDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use the database storage");
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+
+  return { pool, db };
+}
@@ -0,0 +1,205 @@
+import { forumReactionKinds, type ForumReactionKind, type ForumReply, type ForumReplyNode, type ForumReplyThread, type ForumTopicSort, type ForumTopicSummary, type InsertForumReply, type ForumEntityType, type ReactionSummary } from "@shared/schema";
+import { storage } from "./storage";
+
+// Replies to a reply at this depth are attached next to it instead of under it
+export const maxReplyDepth = Math.max(Number(process.env.FORUM_MAX_REPLY_DEPTH || 3), 1);
+
+export class InvalidReplyError extends Error {}
+
+export class TopicLockedError extends Error {
+  constructor() {
+    super("Este tópico está fechado para novas respostas");
+  }
+}
+
+// Moderators see hidden content (to review or restore it); everyone else doesn't
+interface ViewOptions {
+  canModerate: boolean;
+  // Marks the viewer's own reactions; absent for visitors
+  viewerId?: number;
+}
+
+// One query for every author or reactor on the page
+async function usersById(ids: number[]) {
+  const users = await storage.getUsersByIds(ids);
+  return new Map(users.map((user) => [user.id, user]));
+}
+
+// Reaction counts and who reacted, for each of the given topics or replies
+async function reactionSummaries(entityType: ForumEntityType, entityIds: number[], viewerId?: number) {
+  const reactions = await storage.getForumReactions(entityType, entityIds);
+  const users = await usersById(reactions.map((reaction) => reaction.userId));
+
+  const summaries = new Map<number, ReactionSummary[]>();
+  for (const entityId of entityIds) {
+    const forEntity = reactions.filter((reaction) => reaction.entityId === entityId);
+    summaries.set(entityId, forumReactionKinds
+      .map((kind): ReactionSummary => {
+        const ofKind = forEntity.filter((reaction) => reaction.kind === kind);
+        return {
+          kind,
+          count: ofKind.length,
+          reacted: ofKind.some((reaction) => reaction.userId === viewerId),
+          userNames: ofKind.map((reaction) => users.get(reaction.userId)?.name ?? "Usuário removido"),
+        };
+      })
+      .filter((summary) => summary.count > 0));
+  }
+  return summaries;
+}
+
+// Adds or removes the user's reaction; null when the content doesn't exist for them
+export async function setReaction(
+  entityType: ForumEntityType,
+  entityId: number,
+  kind: ForumReactionKind,
+  reacted: boolean,
+  { canModerate, viewerId }: Required<ViewOptions>,
+): Promise<ReactionSummary[] | null> {
+  const reply = entityType === "forum_reply" ? await storage.getForumReply(entityId) : undefined;
+  const topic = await storage.getForumTopic(reply ? reply.topicId : entityId);
+  if (!topic || (entityType === "forum_reply" && !reply)) return null;
+  if ((topic.hiddenAt || reply?.hiddenAt) && !canModerate) return null;
+
+  const reaction = { entityType, entityId, userId: viewerId, kind };
+  if (reacted) {
+    await storage.addForumReaction(reaction);
+  } else {
+    await storage.removeForumReaction(reaction);
+  }
+  return (await reactionSummaries(entityType, [entityId], viewerId)).get(entityId)!;
+}
+
+// Topics with author and reply details, so members don't need the admin-only user list
+export async function forumTopicSummaries(sort: ForumTopicSort, { canModerate, viewerId }: ViewOptions): Promise<ForumTopicSummary[]> {
+  const [allTopics, replyStats] = await Promise.all([
+    storage.getAllForumTopics(),
+    // Members don't learn that a hidden reply exists or who wrote it
+    storage.getForumReplyStats({ includeHidden: canModerate }),
+  ]);
+  const topics = allTopics.filter((topic) => canModerate || !topic.hiddenAt);
+  const statsByTopic = new Map(replyStats.map((stats) => [stats.topicId, stats]));
+  const users = await usersById([
+    ...topics.map((topic) => topic.authorId),
+    ...replyStats.map((stats) => stats.lastReplyAuthorId),
+  ]);
+  const reactions = await reactionSummaries("forum_topic", topics.map((topic) => topic.id), viewerId);
+
+  const summaries = topics.map((topic): ForumTopicSummary => {
+    const author = users.get(topic.authorId);
+    const stats = statsByTopic.get(topic.id);
+    const createdAt = topic.createdAt ?? new Date(0);
+    const lastReplyAt = stats?.lastReplyAt ?? null;
+
+    return {
+      ...topic,
+      authorName: author?.name ?? "Usuário removido",
+      authorAvatarUrl: author?.avatarUrl ?? null,
+      replyCount: stats?.replyCount ?? 0,
+      lastReplyAt: lastReplyAt?.toISOString() ?? null,
+      lastReplyAuthorName: stats ? users.get(stats.lastReplyAuthorId)?.name ?? "Usuário removido" : null,
+      lastActivityAt: (lastReplyAt && lastReplyAt > createdAt ? lastReplyAt : createdAt).toISOString(),
+      reactions: reactions.get(topic.id)!,
+    };
+  });
+
+  const sortKey = (topic: ForumTopicSummary) =>
+    sort === "activity" ? topic.lastActivityAt : new Date(topic.createdAt ?? 0).toISOString();
+  return summaries.sort((a, b) =>
+    Number(b.isPinned) - Number(a.isPinned) || sortKey(b).localeCompare(sortKey(a)) || b.id - a.id);
+}
+
+// Depth of each reply; replies whose parent was deleted count as top-level
+function replyDepths(replies: ForumReply[]) {
+  const byId = new Map(replies.map((reply) => [reply.id, reply]));
+  const depths = new Map<number, number>();
+  // Parents always have lower ids, so one pass in id order is enough
+  for (const reply of [...replies].sort((a, b) => a.id - b.id)) {
+    const parentDepth = reply.parentReplyId !== null && byId.has(reply.parentReplyId)
+      ? depths.get(reply.parentReplyId) ?? 0
+      : 0;
+    depths.set(reply.id, parentDepth + 1);
+  }
+  return depths;
+}
+
+// Checks a new reply against its topic and moves it up when the thread is already at full depth
+export async function prepareReply(data: InsertForumReply, { canModerate }: ViewOptions): Promise<InsertForumReply> {
+  const topic = await storage.getForumTopic(data.topicId);
+  if (!topic || (topic.hiddenAt && !canModerate)) throw new InvalidReplyError("Tópico não encontrado");
+  if (topic.isLocked && !canModerate) throw new TopicLockedError();
+
+  const replies = await storage.getForumRepliesByTopic(data.topicId);
+  const byId = new Map(replies.map((reply) => [reply.id, reply]));
+  const prepared = { ...data };
+
+  if (prepared.parentReplyId != null) {
+    const parent = byId.get(prepared.parentReplyId);
+    if (!parent) throw new InvalidReplyError("A resposta original não existe neste tópico");
+    if (replyDepths(replies).get(parent.id)! >= maxReplyDepth) {
+      prepared.parentReplyId = parent.parentReplyId;
+    }
+  }
+
+  if (prepared.quotedReplyId != null) {
+    const quoted = byId.get(prepared.quotedReplyId);
+    if (!quoted || (quoted.hiddenAt && !canModerate)) {
+      throw new InvalidReplyError("A resposta citada não existe neste tópico");
+    }
+    const text = prepared.quotedText?.trim();
+    // Quotes are excerpts, never text the other member didn't write
+    if (!text || !quoted.content.includes(text)) {
+      throw new InvalidReplyError("A citação deve ser um trecho da resposta citada");
+    }
+    prepared.quotedText = text;
+  } else {
+    prepared.quotedText = null;
+  }
+
+  return prepared;
+}
+
+// The whole discussion in one call, built from a single query for the topic's replies
+export async function forumReplyThread(topicId: number, { canModerate, viewerId }: ViewOptions): Promise<ForumReplyThread> {
+  const replies = (await storage.getForumRepliesByTopic(topicId)).sort((a, b) => a.id - b.id);
+  const users = await usersById(replies.map((reply) => reply.authorId));
+  const reactions = await reactionSummaries("forum_reply", replies.map((reply) => reply.id), viewerId);
+  const depths = replyDepths(replies);
+  const byId = new Map(replies.map((reply) => [reply.id, reply]));
+  const authorName = (reply: ForumReply) => users.get(reply.authorId)?.name ?? "Usuário removido";
+
+  const nodes = new Map<number, ForumReplyNode>();
+  const roots: ForumReplyNode[] = [];
+  for (const reply of replies) {
+    const quoted = reply.quotedReplyId !== null ? byId.get(reply.quotedReplyId) : undefined;
+    // Hidden replies keep their place in the thread, without their content
+    const masked = !!reply.hiddenAt && !canModerate;
+    const quoteMasked = !!quoted?.hiddenAt && !canModerate;
+    const node: ForumReplyNode = {
+      ...reply,
+      content: masked ? "" : reply.content,
+      quotedText: masked || quoteMasked ? null : reply.quotedText,
+      hiddenReason: canModerate ? reply.hiddenReason : null,
+      authorName: authorName(reply),
+      authorAvatarUrl: users.get(reply.authorId)?.avatarUrl ?? null,
+      // Hidden replies have nothing to react to
+      reactions: masked ? [] : reactions.get(reply.id)!,
+      depth: depths.get(reply.id)!,
+      quote: reply.quotedReplyId !== null && reply.quotedText && !masked
+        ? {
+          replyId: reply.quotedReplyId,
+          authorName: quoted ? authorName(quoted) : "Resposta removida",
+          text: quoteMasked ? "" : reply.quotedText,
+          available: !!quoted && !quoteMasked,
+        }
+        : null,
+      children: [],
+    };
+    nodes.set(reply.id, node);
+
+    const parent = reply.parentReplyId !== null ? nodes.get(reply.parentReplyId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return { maxDepth: maxReplyDepth, total: replies.length, replies: roots };
+}
@@ -0,0 +1,86 @@
+import path from "path";
+import sharp, { type Sharp } from "sharp";
+import type { MediaVariant } from "@shared/schema";
+import { fileStorage, type StoredFile } from "./uploads";
+
+// Maximum width of each variant; images are never enlarged
+export const imageVariantWidths: Record<MediaVariant["name"], number> = {
+  thumbnail: 320,
+  medium: 768,
+  large: 1600,
+};
+
+// Vector, animated and icon formats are served as uploaded
+const resizableMimeTypes = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+export function canResize(mimeType: string) {
+  return resizableMimeTypes.has(mimeType);
+}
+
+async function encode(image: Sharp, mimeType: string) {
+  switch (mimeType) {
+    case "image/jpeg":
+      return image.jpeg({ quality: 82, mozjpeg: true }).toBuffer({ resolveWithObject: true });
+    case "image/png":
+      return image.png({ compressionLevel: 9 }).toBuffer({ resolveWithObject: true });
+    default:
+      return image.webp({ quality: 80 }).toBuffer({ resolveWithObject: true });
+  }
+}
+
+// Resizes an uploaded image to every variant width smaller than the original
+// (the thumbnail is always produced), in its own format and as WebP, and
+// saves each copy next to the original through the file storage driver.
+// If any copy fails, the ones already written are deleted before rethrowing.
+export async function createImageVariants(original: StoredFile, buffer: Buffer): Promise<MediaVariant[]> {
+  if (!canResize(original.mimeType)) return [];
+
+  const { width: originalWidth } = await sharp(buffer).metadata();
+  if (!originalWidth) return [];
+
+  const formats = Array.from(new Set([original.mimeType, "image/webp"]));
+  const originalExtension = path.posix.extname(original.key);
+  const baseKey = original.key.slice(0, original.key.length - originalExtension.length);
+  const variants: MediaVariant[] = [];
+  // Every key a save was started for, even if it failed halfway
+  const writtenKeys: string[] = [];
+
+  try {
+    for (const [name, maxWidth] of Object.entries(imageVariantWidths) as [MediaVariant["name"], number][]) {
+      if (name !== "thumbnail" && originalWidth <= maxWidth) continue;
+
+      for (const mimeType of formats) {
+        const resized = sharp(buffer)
+          .rotate() // apply EXIF orientation before the metadata is stripped
+          .resize({ width: maxWidth, withoutEnlargement: true });
+        const { data, info } = await encode(resized, mimeType);
+        const extension = mimeType === original.mimeType ? originalExtension : ".webp";
+        const key = `${baseKey}-${name}${extension}`;
+
+        writtenKeys.push(key);
+        const stored = await fileStorage.save({
+          buffer: data,
+          mimeType,
+          originalName: original.originalName,
+          key,
+        });
+
+        variants.push({
+          name,
+          url: stored.url,
+          storageKey: stored.key,
+          mimeType,
+          width: info.width,
+          height: info.height,
+          size: stored.size,
+        });
+      }
+    }
+  } catch (error) {
+    // Leave no half-finished set of copies behind
+    await Promise.all(writtenKeys.map((key) => fileStorage.delete(key).catch(() => {})));
+    throw error;
+  }
+
+  return variants;
+}
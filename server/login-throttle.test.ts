@@ -0,0 +1,63 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, createTestUser, TestClient } from "./test-server";
+
+// Default limits: 5 failures per account, 20 per IP. Every request here comes
+// from 127.0.0.1, so the IP test runs last.
+describe("login throttling", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let admin: TestClient;
+
+  const failLogins = async (username: string, times: number) => {
+    for (let i = 0; i < times; i++) {
+      assert.equal((await new TestClient(server.url).login(username, "errada")).status, 401);
+    }
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    await createTestUser("admin", { role: "admin" });
+    admin = new TestClient(server.url);
+    await admin.login("admin");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("forgets failures after a successful login", async () => {
+    await createTestUser("esquecido");
+    await failLogins("esquecido", 4);
+    assert.equal((await new TestClient(server.url).login("esquecido")).status, 200);
+    await failLogins("esquecido", 4);
+    assert.equal((await new TestClient(server.url).login("esquecido")).status, 200);
+  });
+
+  it("locks the account after too many failures until an admin unlocks it", async () => {
+    const user = await createTestUser("maria");
+    await failLogins("maria", 5);
+
+    const locked = await new TestClient(server.url).login("maria");
+    assert.equal(locked.status, 429);
+    assert.ok(Number(locked.headers.get("retry-after")) > 0);
+
+    const visitor = new TestClient(server.url);
+    assert.equal((await visitor.post(`/api/users/${user.id}/unlock`)).status, 401);
+    const unlocked = await admin.post(`/api/users/${user.id}/unlock`);
+    assert.equal(unlocked.status, 200);
+    assert.equal(unlocked.body.failedLoginAttempts, 0);
+    assert.equal(unlocked.body.lockedUntil, null);
+    assert.equal((await visitor.login("maria")).status, 200);
+  });
+
+  it("locks the address after too many failures on any account", async () => {
+    await createTestUser("joao");
+    let status = 401;
+    for (let i = 0; i < 20 && status === 401; i++) {
+      status = (await new TestClient(server.url).login(`desconhecido${i}`, "errada")).status;
+    }
+
+    assert.equal(status, 429);
+    assert.equal((await new TestClient(server.url).login("joao")).status, 429);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Response } from "express";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Failed logins allowed before a lock, per account and per IP address
+const maxAttemptsPerUser = Number(process.env.LOGIN_MAX_ATTEMPTS || 5);
+const maxAttemptsPerIp = Number(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || 20);
+const baseLockoutMs = Number(process.env.LOGIN_LOCKOUT_MINUTES || 1) * 60 * 1000;
+const maxLockoutMs = Number(process.env.LOGIN_MAX_LOCKOUT_MINUTES || 24 * 60) * 60 * 1000;
+
+// An IP's failures are forgotten after a day without new ones
+const ipFailureTtlMs = 24 * 60 * 60 * 1000;
+
+export interface LoginLockInfo {
+  message: string;
+  // Milliseconds until another attempt is allowed
+  lockRemaining?: number;
+}
+
+// The lock doubles with every failure past the limit, up to the maximum
+export function lockoutDuration(failures: number, limit: number) {
+  return Math.min(baseLockoutMs * 2 ** Math.max(failures - limit, 0), maxLockoutMs);
+}
+
+// Per-IP counters live in memory; per-account counters are stored on the user
+// so they survive restarts and can be cleared by an admin
+const ipFailures = new Map<string, { count: number; lockedUntil: number; lastFailureAt: number }>();
+
+function pruneIpFailures(now: number) {
+  ipFailures.forEach((entry, ip) => {
+    if (entry.lockedUntil <= now && entry.lastFailureAt + ipFailureTtlMs <= now) {
+      ipFailures.delete(ip);
+    }
+  });
+}
+
+// Milliseconds until the IP or account may try again, 0 when not locked
+export function loginLockRemaining(ip: string, user?: User): number {
+  const now = Date.now();
+  const ipLockedUntil = ipFailures.get(ip)?.lockedUntil ?? 0;
+  const userLockedUntil = user?.lockedUntil ? new Date(user.lockedUntil).getTime() : 0;
+  return Math.max(ipLockedUntil, userLockedUntil, now) - now;
+}
+
+// Refuses a login step while locked, telling the client how long to wait
+export function sendLoginLocked(res: Response, lockRemaining: number) {
+  const retryAfter = Math.ceil(lockRemaining / 1000);
+  const minutes = Math.ceil(retryAfter / 60);
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({
+    message: `Muitas tentativas de login. Tente novamente em ${minutes} ${minutes === 1 ? "minuto" : "minutos"}.`,
+    retryAfter,
+  });
+}
+
+export async function recordLoginFailure(ip: string, username: string, user?: User) {
+  const now = Date.now();
+  pruneIpFailures(now);
+
+  const entry = ipFailures.get(ip) ?? { count: 0, lockedUntil: 0, lastFailureAt: now };
+  entry.count++;
+  entry.lastFailureAt = now;
+  ipFailures.set(ip, entry);
+
+  if (entry.count >= maxAttemptsPerIp) {
+    entry.lockedUntil = now + lockoutDuration(entry.count, maxAttemptsPerIp);
+    await storage.createLoginLockEvent({
+      event: "locked",
+      scope: "ip",
+      username,
+      ipAddress: ip,
+      failedAttempts: entry.count,
+      lockedUntil: new Date(entry.lockedUntil),
+    });
+  }
+
+  if (!user) return;
+
+  const updatedUser = await storage.recordFailedLogin(user.id);
+  if (updatedUser && updatedUser.failedLoginAttempts >= maxAttemptsPerUser) {
+    const lockedUntil = new Date(now + lockoutDuration(updatedUser.failedLoginAttempts, maxAttemptsPerUser));
+    await storage.updateUser(user.id, { lockedUntil });
+    await storage.createLoginLockEvent({
+      event: "locked",
+      scope: "user",
+      userId: user.id,
+      username: user.username,
+      ipAddress: ip,
+      failedAttempts: updatedUser.failedLoginAttempts,
+      lockedUntil,
+    });
+  }
+}
+
+// Clears the account's failures. The IP counter is left to expire, so one
+// valid account can't be used to reset it while guessing at others.
+export async function recordLoginSuccess(user: User): Promise<User> {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) return user;
+
+  const updatedUser = await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+  return updatedUser ?? user;
+}
+
+export async function unlockLogin(user: User, actorId: number): Promise<User | undefined> {
+  const updatedUser = await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+  await storage.createLoginLockEvent({
+    event: "unlocked",
+    scope: "user",
+    userId: user.id,
+    username: user.username,
+    failedAttempts: user.failedLoginAttempts,
+    actorId,
+  });
+  return updatedUser;
+}
@@ -0,0 +1,70 @@
+import path from "path";
+import fs from "fs/promises";
+import nodemailer from "nodemailer";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Outgoing email. SMTP in production; file or console for development and tests.
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = process.env.MAIL_FROM || "IBI Parnaíba <nao-responda@ibiparnaiba.com.br>";
+
+export class SmtpMailer implements Mailer {
+  private transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: defaultFrom, ...message });
+  }
+}
+
+// Writes each message as JSON into a directory, handy for inspecting in tests
+export class FileMailer implements Mailer {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+    await fs.writeFile(
+      path.join(this.dir, fileName),
+      JSON.stringify({ from: defaultFrom, ...message, sentAt: new Date() }, null, 2),
+    );
+  }
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    log(`email para ${message.to}: ${message.subject}\n${message.text}`, "mailer");
+  }
+}
+
+function createMailer(): Mailer {
+  const driver = process.env.MAIL_DRIVER || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  switch (driver) {
+    case "smtp":
+      return new SmtpMailer();
+    case "file":
+      return new FileMailer(path.resolve(process.env.MAIL_DIR || "mail"));
+    case "console":
+      return new ConsoleMailer();
+    default:
+      throw new Error(`Unknown MAIL_DRIVER "${driver}"`);
+  }
+}
+
+export const mailer = createMailer();
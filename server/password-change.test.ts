@@ -0,0 +1,52 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, createTestUser, TestClient, testPassword } from "./test-server";
+
+describe("POST /api/user/password", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+
+  before(async () => {
+    server = await startTestServer();
+    await createTestUser("maria");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("needs a logged in user", async () => {
+    const res = await new TestClient(server.url).post("/api/user/password", { currentPassword: testPassword, newPassword: "OutraSenha123!" });
+    assert.equal(res.status, 401);
+  });
+
+  it("checks the current password and the password policy", async () => {
+    const client = new TestClient(server.url);
+    assert.equal((await client.login("maria")).status, 200);
+
+    const wrong = await client.post("/api/user/password", { currentPassword: "errada", newPassword: "OutraSenha123!" });
+    assert.equal(wrong.status, 400);
+    assert.deepEqual(wrong.body.errors[0].path, ["currentPassword"]);
+
+    const weak = await client.post("/api/user/password", { currentPassword: testPassword, newPassword: "123" });
+    assert.equal(weak.status, 400);
+    assert.deepEqual(weak.body.errors[0].path, ["newPassword"]);
+
+    const same = await client.post("/api/user/password", { currentPassword: testPassword, newPassword: testPassword });
+    assert.equal(same.status, 400);
+  });
+
+  it("changes the password and ends every other session", async () => {
+    const browser = new TestClient(server.url);
+    const phone = new TestClient(server.url);
+    await browser.login("maria");
+    await phone.login("maria");
+
+    const res = await browser.post("/api/user/password", { currentPassword: testPassword, newPassword: "OutraSenha123!" });
+    assert.equal(res.status, 200);
+
+    assert.equal((await browser.get("/api/user")).status, 200);
+    assert.equal((await phone.get("/api/user")).status, 401);
+    assert.equal((await new TestClient(server.url).login("maria")).status, 401);
+    assert.equal((await new TestClient(server.url).login("maria", "OutraSenha123!")).status, 200);
+  });
+});
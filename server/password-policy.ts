@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+// Password rules, configurable per deploy through the environment
+export const passwordPolicy = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH || 8),
+  requireLetter: process.env.PASSWORD_REQUIRE_LETTER !== "false",
+  requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== "false",
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === "true",
+};
+
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  const problems: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    problems.push(`Senha deve ter no mínimo ${passwordPolicy.minLength} caracteres`);
+  }
+  if (passwordPolicy.requireLetter && !/[a-zA-ZÀ-ÿ]/.test(password)) {
+    problems.push("Senha deve conter ao menos uma letra");
+  }
+  if (passwordPolicy.requireNumber && !/\d/.test(password)) {
+    problems.push("Senha deve conter ao menos um número");
+  }
+  if (passwordPolicy.requireSymbol && !/[^a-zA-ZÀ-ÿ0-9\s]/.test(password)) {
+    problems.push("Senha deve conter ao menos um símbolo");
+  }
+
+  for (const message of problems) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
@@ -0,0 +1,83 @@
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { startTestServer, createTestUser, TestClient } from "./test-server";
+import { mailer, type MailMessage } from "./mailer";
+import { storage } from "./storage";
+
+describe("password reset routes", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let client: TestClient;
+  const sent: MailMessage[] = [];
+
+  // The token only ever leaves the server inside the emailed link
+  const tokenFrom = (message: MailMessage) => message.text.match(/token=([0-9a-f]+)/)![1];
+
+  before(async () => {
+    mock.method(mailer, "send", async (message: MailMessage) => {
+      sent.push(message);
+    });
+    server = await startTestServer();
+    client = new TestClient(server.url);
+  });
+
+  beforeEach(() => {
+    sent.length = 0;
+  });
+
+  after(async () => {
+    await server.close();
+    mock.restoreAll();
+  });
+
+  it("answers the same whether or not the email has an account", async () => {
+    await createTestUser("maria");
+    const known = await client.post("/api/forgot-password", { email: "maria@example.com" });
+    const unknown = await client.post("/api/forgot-password", { email: "ninguem@example.com" });
+
+    assert.equal(known.status, 200);
+    assert.equal(unknown.status, 200);
+    assert.deepEqual(unknown.body, known.body);
+    assert.deepEqual(sent.map((message) => message.to), ["maria@example.com"]);
+  });
+
+  it("resets the password once per emailed token", async () => {
+    await createTestUser("joao");
+    await client.post("/api/forgot-password", { email: "joao@example.com" });
+    const token = tokenFrom(sent[0]);
+
+    assert.equal((await client.post("/api/reset-password", { token, password: "123" })).status, 400);
+    assert.equal((await client.post("/api/reset-password", { token, password: "NovaSenha123!" })).status, 200);
+    assert.equal((await client.post("/api/reset-password", { token, password: "OutraSenha123!" })).status, 400);
+
+    assert.equal((await new TestClient(server.url).login("joao")).status, 401);
+    assert.equal((await new TestClient(server.url).login("joao", "NovaSenha123!")).status, 200);
+  });
+
+  it("only honours the latest link", async () => {
+    await createTestUser("ana");
+    await client.post("/api/forgot-password", { email: "ana@example.com" });
+    await client.post("/api/forgot-password", { email: "ana@example.com" });
+    const [first, second] = sent.map(tokenFrom);
+
+    assert.equal((await client.post("/api/reset-password", { token: first, password: "NovaSenha123!" })).status, 400);
+    assert.equal((await client.post("/api/reset-password", { token: second, password: "NovaSenha123!" })).status, 200);
+  });
+
+  it("refuses an expired token", async () => {
+    const user = await createTestUser("pedro");
+    await storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: createHash("sha256").update("expirado").digest("hex"),
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    assert.equal((await client.post("/api/reset-password", { token: "expirado", password: "NovaSenha123!" })).status, 400);
+  });
+
+  it("limits reset emails per address", async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await client.post("/api/forgot-password", { email: "Limite@example.com" })).status, 200);
+    }
+    assert.equal((await client.post("/api/forgot-password", { email: "limite@example.com" })).status, 429);
+  });
+});
@@ -0,0 +1,113 @@
+import type { Express, Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { mailer } from "./mailer";
+import { passwordSchema } from "./password-policy";
+import { RateLimiter } from "./rate-limit";
+import { recordAudit } from "./audit";
+import { log } from "./vite";
+
+const tokenTtlMinutes = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+
+// At most 3 reset emails per address per hour
+const forgotPasswordLimiter = new RateLimiter(3, 60 * 60 * 1000);
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Email inválido"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token inválido"),
+  password: passwordSchema,
+});
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function appUrl(req: Request) {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+export function registerPasswordResetRoutes(app: Express) {
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      if (!forgotPasswordLimiter.consume(email.toLowerCase())) {
+        return res.status(429).json({ message: "Muitas solicitações. Tente novamente mais tarde." });
+      }
+
+      // One email per account, since family members may share an address
+      const users = await storage.getUsersByEmail(email);
+      for (const user of users) {
+        await storage.invalidatePasswordResetTokens(user.id);
+
+        const token = randomBytes(32).toString("hex");
+        await storage.createPasswordResetToken({
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + tokenTtlMinutes * 60 * 1000),
+        });
+
+        const link = `${appUrl(req)}/reset-password?token=${token}`;
+        // Not awaited, so response time doesn't reveal whether the account exists
+        mailer.send({
+          to: user.email,
+          subject: "Redefinição de senha",
+          text: [
+            `Olá, ${user.name}.`,
+            "",
+            `Recebemos um pedido para redefinir a senha do usuário "${user.username}".`,
+            `Para criar uma nova senha, acesse o link abaixo em até ${tokenTtlMinutes} minutos:`,
+            "",
+            link,
+            "",
+            "Se você não fez este pedido, ignore este email.",
+          ].join("\n"),
+        }).catch((error) => log(`falha ao enviar email de redefinição: ${error}`, "mailer"));
+      }
+
+      // Same answer whether or not the email exists
+      res.status(200).json({
+        message: "Se houver uma conta com este email, você receberá um link para redefinir a senha.",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Email inválido", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      const resetToken = await storage.consumePasswordResetToken(hashToken(token));
+      const user = resetToken && await storage.getUser(resetToken.userId);
+      if (!user) {
+        return res.status(400).json({ message: "Link de redefinição inválido ou expirado" });
+      }
+
+      // New password also ends every existing session and lifts a login lockout
+      const updatedUser = await storage.updateUser(user.id, {
+        password: await hashPassword(password),
+        sessionVersion: user.sessionVersion + 1,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      await recordAudit(req, { action: "update", entityType: "user", before: user, after: updatedUser, actorId: user.id });
+      await storage.invalidatePasswordResetTokens(user.id);
+
+      res.status(200).json({ message: "Senha redefinida" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Senha inválida", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,68 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, createTestUser, TestClient } from "./test-server";
+import type { User } from "@shared/schema";
+
+describe("role permissions on routes", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  const users: Record<string, User> = {};
+  const clients: Record<string, TestClient> = {};
+
+  const analytics = "/api/analytics?from=2026-01-01&to=2026-07-01&bucket=month";
+  const event = (createdBy: number) => ({
+    title: "Culto",
+    eventType: "culto",
+    startTime: "2026-11-01T19:00:00.000Z",
+    endTime: "2026-11-01T21:00:00.000Z",
+    location: "Templo",
+    createdBy,
+  });
+
+  before(async () => {
+    server = await startTestServer();
+    for (const role of ["admin", "pastor", "leader", "moderator", "member"]) {
+      users[role] = await createTestUser(role, { role });
+      clients[role] = new TestClient(server.url);
+      await clients[role].login(role);
+    }
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("asks anonymous visitors to log in", async () => {
+    assert.equal((await new TestClient(server.url).get("/api/users")).status, 401);
+  });
+
+  it("refuses what the role doesn't grant", async () => {
+    for (const path of ["/api/users", "/api/audit-log", analytics, "/api/forum/reports"]) {
+      assert.equal((await clients.member.get(path)).status, 403, path);
+    }
+    assert.equal((await clients.member.post("/api/events", event(users.member.id))).status, 403);
+
+    assert.equal((await clients.moderator.get("/api/forum/reports")).status, 200);
+    assert.equal((await clients.moderator.get("/api/users")).status, 403);
+    assert.equal((await clients.leader.get(analytics)).status, 200);
+    assert.equal((await clients.leader.get("/api/audit-log")).status, 403);
+  });
+
+  it("lets writers edit their own content and managers edit anyone's", async () => {
+    const created = await clients.leader.post("/api/events", event(users.leader.id));
+    assert.equal(created.status, 201);
+    const byPastor = (await clients.pastor.post("/api/events", event(users.pastor.id))).body;
+
+    assert.equal((await clients.leader.patch(`/api/events/${created.body.id}`, { location: "Salão" })).status, 200);
+    assert.equal((await clients.leader.patch(`/api/events/${byPastor.id}`, { location: "Salão" })).status, 403);
+    assert.equal((await clients.pastor.patch(`/api/events/${created.body.id}`, { location: "Templo" })).status, 200);
+  });
+
+  it("applies a role change on the member's next request", async () => {
+    assert.equal((await clients.admin.patch(`/api/users/${users.member.id}`, { role: "dono" })).status, 400);
+    const res = await clients.admin.patch(`/api/users/${users.member.id}`, { role: "leader" });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.role, "leader");
+
+    assert.equal((await clients.member.post("/api/events", event(users.member.id))).status, 201);
+  });
+});
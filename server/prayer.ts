@@ -0,0 +1,82 @@
+import { addDays } from "date-fns";
+import type { PrayerListScope, PrayerRequest, PrayerRequestView, User } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { storage } from "./storage";
+
+export class PrayerRequestExpiredError extends Error {
+  constructor() {
+    super("Este pedido de oração já expirou");
+  }
+}
+
+export function prayerExpiry(durationDays: number, from = new Date()) {
+  return addDays(from, durationDays);
+}
+
+function isPastoral(viewer: User | undefined) {
+  return hasPermission(viewer, "prayer:pastoral");
+}
+
+// Visitors see public requests; members everything but other people's
+// pastoral-only ones; the pastoral team everything
+export function canSeePrayerRequest(request: PrayerRequest, viewer: User | undefined) {
+  if (request.visibility === "public") return true;
+  if (!viewer) return false;
+  if (request.authorId === viewer.id || isPastoral(viewer)) return true;
+  return request.visibility !== "pastoral";
+}
+
+// The author or the pastoral team may edit, answer or delete a request
+export function canManagePrayerRequest(request: PrayerRequest, viewer: User) {
+  return request.authorId === viewer.id || isPastoral(viewer);
+}
+
+export async function prayerRequestViews(requests: PrayerRequest[], viewer: User | undefined): Promise<PrayerRequestView[]> {
+  const intercessions = await storage.getPrayerIntercessions(requests.map((request) => request.id));
+  const authors = new Map<number, User>();
+  for (const id of Array.from(new Set(requests.map((request) => request.authorId)))) {
+    const author = await storage.getUser(id);
+    if (author) authors.set(id, author);
+  }
+
+  const now = new Date();
+  return requests.map((request): PrayerRequestView => {
+    const isOwn = !!viewer && request.authorId === viewer.id;
+    const revealAuthor = request.visibility !== "anonymous" || isOwn || isPastoral(viewer);
+    const author = authors.get(request.authorId);
+    const prayers = intercessions.filter((intercession) => intercession.requestId === request.id);
+
+    return {
+      ...request,
+      authorId: revealAuthor ? request.authorId : null,
+      authorName: revealAuthor ? author?.name ?? "Usuário removido" : null,
+      authorAvatarUrl: revealAuthor ? author?.avatarUrl ?? null : null,
+      prayerCount: prayers.length,
+      prayed: !!viewer && prayers.some((intercession) => intercession.userId === viewer.id),
+      isOwn,
+      expired: request.expiresAt <= now,
+    };
+  });
+}
+
+// community: unexpired requests the viewer may read; mine: the viewer's own,
+// expired included; pastoral: every request, for the pastoral team only
+export async function prayerRequestList(scope: PrayerListScope, viewer: User | undefined): Promise<PrayerRequestView[]> {
+  let requests: PrayerRequest[];
+  if (scope === "mine") {
+    requests = viewer ? await storage.listPrayerRequests({ authorId: viewer.id }) : [];
+  } else if (scope === "pastoral") {
+    requests = isPastoral(viewer) ? await storage.listPrayerRequests({}) : [];
+  } else {
+    requests = (await storage.listPrayerRequests({ activeAt: new Date() }))
+      .filter((request) => canSeePrayerRequest(request, viewer));
+  }
+  return prayerRequestViews(requests, viewer);
+}
+
+export async function prayFor(request: PrayerRequest, viewer: User) {
+  if (request.expiresAt <= new Date()) throw new PrayerRequestExpiredError();
+  await storage.addPrayerIntercession({ requestId: request.id, userId: viewer.id });
+  const [view] = await prayerRequestViews([request], viewer);
+  return view;
+}
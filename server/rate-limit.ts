@@ -0,0 +1,28 @@
+// Fixed-window counter kept in memory, keyed by whatever the caller limits on
+// (an email, an IP...). Good enough for a single server process.
+export class RateLimiter {
+  private hits = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Records a hit for the key; returns false once the key is over its limit
+  consume(key: string): boolean {
+    const now = Date.now();
+    this.prune(now);
+
+    const entry = this.hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      this.hits.set(key, { count: 1, resetAt: now + this.windowMs });
+      return true;
+    }
+
+    entry.count++;
+    return entry.count <= this.limit;
+  }
+
+  private prune(now: number) {
+    this.hits.forEach((entry, key) => {
+      if (entry.resetAt <= now) this.hits.delete(key);
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, createTestUser, TestClient, testPassword } from "./test-server";
+import { storage } from "./storage";
+
+describe("POST /api/register", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  const registration = (username: string) => ({
+    username,
+    password: testPassword,
+    name: "Novo Membro",
+    email: `${username}@example.com`,
+  });
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("creates a pending member and logs them in", async () => {
+    const client = new TestClient(server.url);
+    const res = await client.post("/api/register", registration("novo"));
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.role, "member");
+    assert.equal(res.body.status, "pending");
+    assert.equal(res.body.password, undefined);
+    assert.equal((await client.get("/api/user")).body.username, "novo");
+  });
+
+  it("refuses a role, status or any other field the form doesn't send", async () => {
+    for (const extra of [{ role: "admin" }, { status: "approved" }, { sessionVersion: 5 }]) {
+      const username = `intruso${Object.keys(extra)[0]}`;
+      const res = await new TestClient(server.url).post("/api/register", { ...registration(username), ...extra });
+      assert.equal(res.status, 400);
+      assert.equal(await storage.getUserByUsername(username), undefined);
+    }
+  });
+
+  it("points at the field that failed", async () => {
+    await createTestUser("existente");
+    const taken = await new TestClient(server.url).post("/api/register", registration("existente"));
+    assert.equal(taken.status, 400);
+    assert.deepEqual(taken.body.errors.map((error: { path: string[] }) => error.path), [["username"]]);
+
+    const weak = await new TestClient(server.url).post("/api/register", { ...registration("fraca"), password: "123" });
+    assert.equal(weak.status, 400);
+    assert.ok(weak.body.errors.length > 0);
+    assert.ok(weak.body.errors.every((error: { path: string[] }) => error.path[0] === "password"));
+  });
+});
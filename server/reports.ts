@@ -0,0 +1,207 @@
+import type { Request } from "express";
+import type { ContentReport, ContentReportView, ForumReply, ForumTopic, ReportAction, ReportReason, ReportStatus, ReportableType } from "@shared/schema";
+import { storage } from "./storage";
+import { recordAudit } from "./audit";
+import { removeActivitiesFor } from "./activity";
+import { mailer } from "./mailer";
+import { log } from "./vite";
+
+export class InvalidReportError extends Error {}
+
+export class DuplicateReportError extends Error {
+  constructor() {
+    super("Você já denunciou este conteúdo e a denúncia ainda está em análise");
+  }
+}
+
+// Used as the hidden reason when the moderator doesn't write one
+const reasonLabels: Record<ReportReason, string> = {
+  spam: "Spam",
+  offensive: "Conteúdo ofensivo",
+  inappropriate: "Conteúdo impróprio",
+  other: "Outro motivo",
+};
+
+type ReportedContent =
+  | { entityType: "forum_topic"; topic: ForumTopic }
+  | { entityType: "forum_reply"; topic: ForumTopic; reply: ForumReply };
+
+async function findContent(entityType: string, entityId: number): Promise<ReportedContent | null> {
+  if (entityType === "forum_topic") {
+    const topic = await storage.getForumTopic(entityId);
+    return topic ? { entityType, topic } : null;
+  }
+  const reply = await storage.getForumReply(entityId);
+  const topic = reply && await storage.getForumTopic(reply.topicId);
+  return reply && topic ? { entityType: "forum_reply", topic, reply } : null;
+}
+
+function contentEntity(content: ReportedContent) {
+  return content.entityType === "forum_topic" ? content.topic : content.reply;
+}
+
+// Members can only report content they can see and didn't write, once while it is under review
+export async function createReport(reporterId: number, data: {
+  entityType: ReportableType;
+  entityId: number;
+  reason: string;
+  details?: string;
+}): Promise<ContentReport> {
+  const content = await findContent(data.entityType, data.entityId);
+  if (!content || content.topic.hiddenAt || contentEntity(content).hiddenAt) {
+    throw new InvalidReportError("Conteúdo não encontrado");
+  }
+  if (contentEntity(content).authorId === reporterId) {
+    throw new InvalidReportError("Você não pode denunciar o próprio conteúdo");
+  }
+
+  const open = await storage.listContentReports({
+    status: "open",
+    entityType: data.entityType,
+    entityId: data.entityId,
+    reporterId,
+  });
+  if (open.length > 0) throw new DuplicateReportError();
+
+  return storage.createContentReport({
+    entityType: data.entityType,
+    entityId: data.entityId,
+    reporterId,
+    reason: data.reason,
+    details: data.details || null,
+  });
+}
+
+export async function openReportCount() {
+  return (await storage.listContentReports({ status: "open" })).length;
+}
+
+// Reports with the content they point to, for the moderation queue
+export async function reportQueue(status: ReportStatus): Promise<ContentReportView[]> {
+  const [reports, openReports] = await Promise.all([
+    storage.listContentReports({ status }),
+    storage.listContentReports({ status: "open" }),
+  ]);
+
+  const openCounts = new Map<string, number>();
+  for (const report of openReports) {
+    const key = `${report.entityType}:${report.entityId}`;
+    openCounts.set(key, (openCounts.get(key) ?? 0) + 1);
+  }
+
+  const userNames = new Map<number, string>();
+  const userName = async (id: number) => {
+    if (!userNames.has(id)) userNames.set(id, (await storage.getUser(id))?.name ?? "Usuário removido");
+    return userNames.get(id)!;
+  };
+
+  const views: ContentReportView[] = [];
+  for (const report of reports) {
+    const content = await findContent(report.entityType, report.entityId);
+    const entity = content && contentEntity(content);
+    views.push({
+      ...report,
+      reporterName: await userName(report.reporterId),
+      openReportCount: openCounts.get(`${report.entityType}:${report.entityId}`) ?? 0,
+      content: content && entity
+        ? {
+          topicId: content.topic.id,
+          title: content.entityType === "forum_topic" ? content.topic.title : null,
+          text: entity.content,
+          authorId: entity.authorId,
+          authorName: await userName(entity.authorId),
+          hidden: !!entity.hiddenAt || !!content.topic.hiddenAt,
+        }
+        : null,
+    });
+  }
+  return views;
+}
+
+async function hideContent(req: Request, content: ReportedContent, reason: string) {
+  const hidden = { hiddenAt: new Date(), hiddenBy: req.user!.id, hiddenReason: reason };
+  if (content.entityType === "forum_topic") {
+    const updated = await storage.updateForumTopic(content.topic.id, hidden);
+    await recordAudit(req, { action: "update", entityType: "forum_topic", before: content.topic, after: updated });
+    await removeActivitiesFor("new_forum", content.topic.id);
+  } else {
+    const updated = await storage.updateForumReply(content.reply.id, hidden);
+    await recordAudit(req, { action: "update", entityType: "forum_reply", before: content.reply, after: updated });
+  }
+}
+
+async function deleteContent(req: Request, content: ReportedContent) {
+  if (content.entityType === "forum_topic") {
+    await storage.deleteForumTopic(content.topic.id);
+    await recordAudit(req, { action: "delete", entityType: "forum_topic", before: content.topic });
+    await removeActivitiesFor("new_forum", content.topic.id);
+  } else {
+    await storage.deleteForumReply(content.reply.id);
+    await recordAudit(req, { action: "delete", entityType: "forum_reply", before: content.reply });
+  }
+  await storage.deleteForumReactionsFor(content.entityType, contentEntity(content).id);
+}
+
+async function warnAuthor(content: ReportedContent, note: string) {
+  const author = await storage.getUser(contentEntity(content).authorId);
+  if (!author) return;
+
+  const where = content.entityType === "forum_topic"
+    ? `no seu tópico "${content.topic.title}"`
+    : `na sua resposta ao tópico "${content.topic.title}"`;
+  // Not awaited; a mail failure shouldn't undo the moderator's decision
+  mailer.send({
+    to: author.email,
+    subject: "Advertência da moderação do fórum",
+    text: [
+      `Olá, ${author.name}.`,
+      "",
+      `A moderação do fórum analisou uma denúncia ${where} e enviou a seguinte advertência:`,
+      "",
+      note,
+      "",
+      "Pedimos que revise as regras de convivência do fórum antes de publicar novamente.",
+    ].join("\n"),
+  }).catch((error) => log(`falha ao enviar advertência: ${error}`, "mailer"));
+}
+
+// Applies the moderator's decision to the content and closes every open report about it
+export async function resolveReport(req: Request, report: ContentReport, action: ReportAction, note?: string) {
+  if (report.status !== "open") throw new InvalidReportError("Esta denúncia já foi analisada");
+
+  const content = await findContent(report.entityType, report.entityId);
+  if (!content && action !== "dismiss") {
+    throw new InvalidReportError("O conteúdo denunciado não existe mais; arquive a denúncia");
+  }
+
+  if (content && action === "hide" && !contentEntity(content).hiddenAt) {
+    await hideContent(req, content, note || (reasonLabels[report.reason as ReportReason] ?? report.reason));
+  } else if (content && action === "delete") {
+    await deleteContent(req, content);
+  } else if (content && action === "warn") {
+    await warnAuthor(content, note!);
+  }
+
+  return storage.closeContentReports(report.entityType, report.entityId, {
+    status: action === "dismiss" ? "dismissed" : "resolved",
+    resolution: action === "dismiss" ? null : action,
+    moderatorNote: note || null,
+    resolvedBy: req.user!.id,
+    resolvedAt: new Date(),
+  });
+}
+
+// Content removed through the forum itself takes its pending reports with it
+export async function closeReportsForDeleted(req: Request, entityType: ReportableType, entityId: number) {
+  const openReports = await storage.listContentReports({ status: "open", entityType, entityId });
+  const closed = await storage.closeContentReports(entityType, entityId, {
+    status: "resolved",
+    resolution: "delete",
+    resolvedBy: req.user!.id,
+    resolvedAt: new Date(),
+  });
+  for (const report of closed) {
+    const before = openReports.find((openReport) => openReport.id === report.id);
+    await recordAudit(req, { action: "update", entityType: "content_report", before, after: report });
+  }
+}
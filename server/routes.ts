@@ -1,29 +1,55 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
+import { registerPasswordResetRoutes } from "./password-reset";
+import { registerTwoFactorRoutes, twoFactorRequiredFor } from "./two-factor";
+import { registerSessionRoutes, logoutEverywhere } from "./sessions";
+import { fileStorage, LocalDiskDriver, uploadMiddleware, UnsupportedFileTypeError, InvalidImageError, maxUploadSize, readImageSize, type StoredFile } from "./uploads";
+import { createImageVariants } from "./images";
+import { unlockLogin } from "./login-throttle";
+import { recordAudit } from "./audit";
+import { recordActivity, removeActivitiesFor, activityFeedPage } from "./activity";
+import { dashboardStats, analyticsReport, periodCount, maxAnalyticsPeriods } from "./stats";
+import { forumTopicSummaries, forumReplyThread, prepareReply, setReaction, InvalidReplyError, TopicLockedError } from "./forum";
+import { prayerRequestList, prayerRequestViews, canSeePrayerRequest, canManagePrayerRequest, prayerExpiry, prayFor, PrayerRequestExpiredError } from "./prayer";
+import { createReport, reportQueue, openReportCount, resolveReport, closeReportsForDeleted, InvalidReportError, DuplicateReportError } from "./reports";
 import { z } from "zod";
-import { insertEventSchema, insertStudySchema, insertPostSchema, insertForumTopicSchema, insertForumReplySchema, insertSiteSettingSchema } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { insertEventSchema, updateEventSchema, insertStudySchema, updateStudySchema, insertPostSchema, updatePostSchema, createForumTopicSchema, updateForumTopicSchema, createForumReplySchema, updateForumReplySchema, moderateForumTopicSchema, hideForumContentSchema, createReportSchema, resolveReportSchema, reportStatuses, forumReactionKinds, type ForumEntityType, createPrayerRequestSchema, updatePrayerRequestSchema, answerPrayerRequestSchema, prayerListScopes, insertSiteSettingSchema, rejectUserSchema, adminUpdateUserSchema, auditActions, auditEntityTypes, analyticsBuckets, type AnalyticsBucket, forumTopicSorts, type MediaType, type Media, type MediaVariant, type AuditLogPage } from "@shared/schema";
 
-// Middleware to check if the user is authenticated
+// Middleware to check if the user is authenticated, approved and, when
+// required for their role, using two-factor authentication
 const isAuthenticated = (req: Request, res: Response, next: Function) => {
-  if (req.isAuthenticated()) {
-    return next();
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
   }
-  res.status(401).json({ message: "Unauthorized" });
+  if (req.user.status !== "approved") {
+    return res.status(403).json({ message: "Cadastro aguardando aprovação" });
+  }
+  if (twoFactorRequiredFor(req.user) && !req.user.twoFactorEnabled) {
+    return res.status(403).json({ message: "Ative a autenticação em dois fatores para continuar" });
+  }
+  next();
 };
 
-// Middleware to check if the user has admin role
-const isAdmin = (req: Request, res: Response, next: Function) => {
-  if (req.isAuthenticated() && req.user && req.user.role === "admin") {
-    return next();
-  }
-  res.status(403).json({ message: "Forbidden" });
+// Middleware to check if the user's role grants a permission
+const requirePermission = (permission: Permission) => (req: Request, res: Response, next: Function) => {
+  isAuthenticated(req, res, () => {
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  });
 };
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
+  registerPasswordResetRoutes(app);
+  registerTwoFactorRoutes(app);
+  registerSessionRoutes(app);
 
   // Events Routes
   app.get("/api/events", async (req, res) => {
@@ -58,10 +84,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/events", isAuthenticated, async (req, res) => {
+  app.post("/api/events", requirePermission("events:write"), async (req, res) => {
     try {
       const eventData = insertEventSchema.parse(req.body);
       const newEvent = await storage.createEvent(eventData);
+      await recordAudit(req, { action: "create", entityType: "event", after: newEvent });
+      await recordActivity("new_event", req.user!.id, newEvent);
       res.status(201).json(newEvent);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -72,7 +100,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/events/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/events/:id", requirePermission("events:write"), async (req, res) => {
     try {
       const eventId = parseInt(req.params.id);
       const existingEvent = await storage.getEvent(eventId);
@@ -81,19 +109,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
       
-      // Only the creator or admin can update
-      if (existingEvent.createdBy !== req.user!.id && req.user!.role !== "admin") {
+      // Only the creator or an events manager can update
+      if (existingEvent.createdBy !== req.user!.id && !hasPermission(req.user, "events:manage")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedEvent = await storage.updateEvent(eventId, req.body);
+      const updatedEvent = await storage.updateEvent(eventId, updateEventSchema.parse(req.body));
+      await recordAudit(req, { action: "update", entityType: "event", before: existingEvent, after: updatedEvent });
       res.status(200).json(updatedEvent);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating event" });
     }
   });
 
-  app.delete("/api/events/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/events/:id", requirePermission("events:write"), async (req, res) => {
     try {
       const eventId = parseInt(req.params.id);
       const existingEvent = await storage.getEvent(eventId);
@@ -102,13 +134,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" });
       }
       
-      // Only the creator or admin can delete
-      if (existingEvent.createdBy !== req.user!.id && req.user!.role !== "admin") {
+      // Only the creator or an events manager can delete
+      if (existingEvent.createdBy !== req.user!.id && !hasPermission(req.user, "events:manage")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
       const result = await storage.deleteEvent(eventId);
       if (result) {
+        await recordAudit(req, { action: "delete", entityType: "event", before: existingEvent });
+        await removeActivitiesFor("new_event", existingEvent.id);
         res.status(200).json({ message: "Event deleted" });
       } else {
         res.status(404).json({ message: "Event not found" });
@@ -141,10 +175,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/studies", isAuthenticated, async (req, res) => {
+  app.post("/api/studies", requirePermission("studies:write"), async (req, res) => {
     try {
       const studyData = insertStudySchema.parse(req.body);
       const newStudy = await storage.createStudy(studyData);
+      await recordAudit(req, { action: "create", entityType: "study", after: newStudy });
+      await recordActivity("new_study", req.user!.id, newStudy);
       res.status(201).json(newStudy);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -155,7 +191,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/studies/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/studies/:id", requirePermission("studies:write"), async (req, res) => {
     try {
       const studyId = parseInt(req.params.id);
       const existingStudy = await storage.getStudy(studyId);
@@ -164,19 +200,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Study not found" });
       }
       
-      // Only the author or admin can update
-      if (existingStudy.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a studies manager can update
+      if (existingStudy.authorId !== req.user!.id && !hasPermission(req.user, "studies:manage")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedStudy = await storage.updateStudy(studyId, req.body);
+      const updatedStudy = await storage.updateStudy(studyId, updateStudySchema.parse(req.body));
+      await recordAudit(req, { action: "update", entityType: "study", before: existingStudy, after: updatedStudy });
       res.status(200).json(updatedStudy);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid study data", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating study" });
     }
   });
 
-  app.delete("/api/studies/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/studies/:id", requirePermission("studies:write"), async (req, res) => {
     try {
       const studyId = parseInt(req.params.id);
       const existingStudy = await storage.getStudy(studyId);
@@ -185,13 +225,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Study not found" });
       }
       
-      // Only the author or admin can delete
-      if (existingStudy.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a studies manager can delete
+      if (existingStudy.authorId !== req.user!.id && !hasPermission(req.user, "studies:manage")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
       const result = await storage.deleteStudy(studyId);
       if (result) {
+        await recordAudit(req, { action: "delete", entityType: "study", before: existingStudy });
+        await removeActivitiesFor("new_study", existingStudy.id);
         res.status(200).json({ message: "Study deleted" });
       } else {
         res.status(404).json({ message: "Study not found" });
@@ -224,10 +266,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/posts", isAuthenticated, async (req, res) => {
+  app.post("/api/posts", requirePermission("posts:write"), async (req, res) => {
     try {
       const postData = insertPostSchema.parse(req.body);
+      // Without publish rights a post is saved as a draft for review
+      if (!hasPermission(req.user, "posts:publish")) {
+        postData.isPublished = false;
+      }
       const newPost = await storage.createPost(postData);
+      await recordAudit(req, { action: "create", entityType: "post", after: newPost });
+      // Drafts aren't news yet; they show up once published
+      if (newPost.isPublished) {
+        await recordActivity("new_post", req.user!.id, newPost);
+      }
       res.status(201).json(newPost);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -238,7 +289,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/posts/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/posts/:id", requirePermission("posts:write"), async (req, res) => {
     try {
       const postId = parseInt(req.params.id);
       const existingPost = await storage.getPost(postId);
@@ -247,19 +298,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Post not found" });
       }
       
-      // Only the author or admin can update
-      if (existingPost.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a publisher can update
+      if (existingPost.authorId !== req.user!.id && !hasPermission(req.user, "posts:publish")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedPost = await storage.updatePost(postId, req.body);
+      const { isPublished, ...postData } = updatePostSchema.parse(req.body);
+      const updatedPost = await storage.updatePost(postId, {
+        ...postData,
+        ...(isPublished !== undefined && hasPermission(req.user, "posts:publish") && { isPublished }),
+      });
+      await recordAudit(req, { action: "update", entityType: "post", before: existingPost, after: updatedPost });
+      if (updatedPost?.isPublished && !existingPost.isPublished) {
+        // Unpublishing and publishing again shouldn't list the post twice
+        await removeActivitiesFor("new_post", postId);
+        await recordActivity("new_post", req.user!.id, updatedPost);
+      }
       res.status(200).json(updatedPost);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid post data", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating post" });
     }
   });
 
-  app.delete("/api/posts/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/posts/:id", requirePermission("posts:write"), async (req, res) => {
     try {
       const postId = parseInt(req.params.id);
       const existingPost = await storage.getPost(postId);
@@ -268,13 +332,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Post not found" });
       }
       
-      // Only the author or admin can delete
-      if (existingPost.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a publisher can delete
+      if (existingPost.authorId !== req.user!.id && !hasPermission(req.user, "posts:publish")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
       const result = await storage.deletePost(postId);
       if (result) {
+        await recordAudit(req, { action: "delete", entityType: "post", before: existingPost });
+        await removeActivitiesFor("new_post", existingPost.id);
         res.status(200).json({ message: "Post deleted" });
       } else {
         res.status(404).json({ message: "Post not found" });
@@ -287,7 +353,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Forum Routes
   app.get("/api/forum/topics", async (req, res) => {
     try {
-      const topics = await storage.getAllForumTopics();
+      const sort = z.enum(forumTopicSorts).catch("activity").parse(req.query.sort);
+      const topics = await forumTopicSummaries(sort, {
+        canModerate: hasPermission(req.user, "forum:moderate"),
+        viewerId: req.user?.id,
+      });
       res.status(200).json(topics);
     } catch (error) {
       res.status(500).json({ message: "Error fetching forum topics" });
@@ -297,7 +367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/forum/topics/:id", async (req, res) => {
     try {
       const topic = await storage.getForumTopic(parseInt(req.params.id));
-      if (topic) {
+      if (topic && (!topic.hiddenAt || hasPermission(req.user, "forum:moderate"))) {
         res.status(200).json(topic);
       } else {
         res.status(404).json({ message: "Forum topic not found" });
@@ -307,10 +377,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/forum/topics", isAuthenticated, async (req, res) => {
+  app.post("/api/forum/topics", requirePermission("forum:write"), async (req, res) => {
     try {
-      const topicData = insertForumTopicSchema.parse(req.body);
-      const newTopic = await storage.createForumTopic(topicData);
+      const topicData = createForumTopicSchema.parse(req.body);
+      const newTopic = await storage.createForumTopic({ ...topicData, authorId: req.user!.id });
+      await recordAudit(req, { action: "create", entityType: "forum_topic", after: newTopic });
+      await recordActivity("new_forum", req.user!.id, newTopic);
       res.status(201).json(newTopic);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -321,7 +393,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/forum/topics/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/forum/topics/:id", requirePermission("forum:write"), async (req, res) => {
     try {
       const topicId = parseInt(req.params.id);
       const existingTopic = await storage.getForumTopic(topicId);
@@ -330,19 +402,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Forum topic not found" });
       }
       
-      // Only the author or admin can update
-      if (existingTopic.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a moderator can update
+      if (existingTopic.authorId !== req.user!.id && !hasPermission(req.user, "forum:moderate")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedTopic = await storage.updateForumTopic(topicId, req.body);
+      const updatedTopic = await storage.updateForumTopic(topicId, updateForumTopicSchema.parse(req.body));
+      await recordAudit(req, { action: "update", entityType: "forum_topic", before: existingTopic, after: updatedTopic });
       res.status(200).json(updatedTopic);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid forum topic data", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating forum topic" });
     }
   });
 
-  app.delete("/api/forum/topics/:id", isAuthenticated, async (req, res) => {
+  // Pin, lock or move a topic to another category
+  app.patch("/api/forum/topics/:id/moderation", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const topicId = parseInt(req.params.id);
+      const existingTopic = await storage.getForumTopic(topicId);
+      if (!existingTopic) {
+        return res.status(404).json({ message: "Forum topic not found" });
+      }
+
+      const updatedTopic = await storage.updateForumTopic(topicId, moderateForumTopicSchema.parse(req.body));
+      await recordAudit(req, { action: "update", entityType: "forum_topic", before: existingTopic, after: updatedTopic });
+      res.status(200).json(updatedTopic);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados de moderação inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error moderating forum topic" });
+    }
+  });
+
+  app.post("/api/forum/topics/:id/hide", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const topicId = parseInt(req.params.id);
+      const existingTopic = await storage.getForumTopic(topicId);
+      if (!existingTopic) {
+        return res.status(404).json({ message: "Forum topic not found" });
+      }
+
+      const { reason } = hideForumContentSchema.parse(req.body);
+      const updatedTopic = await storage.updateForumTopic(topicId, {
+        hiddenAt: new Date(),
+        hiddenBy: req.user!.id,
+        hiddenReason: reason,
+      });
+      await recordAudit(req, { action: "update", entityType: "forum_topic", before: existingTopic, after: updatedTopic });
+      // Keep the hidden title out of everyone's dashboard
+      await removeActivitiesFor("new_forum", topicId);
+      res.status(200).json(updatedTopic);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Motivo inválido", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error hiding forum topic" });
+    }
+  });
+
+  app.post("/api/forum/topics/:id/restore", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const topicId = parseInt(req.params.id);
+      const existingTopic = await storage.getForumTopic(topicId);
+      if (!existingTopic) {
+        return res.status(404).json({ message: "Forum topic not found" });
+      }
+
+      const updatedTopic = await storage.updateForumTopic(topicId, { hiddenAt: null, hiddenBy: null, hiddenReason: null });
+      await recordAudit(req, { action: "update", entityType: "forum_topic", before: existingTopic, after: updatedTopic });
+      res.status(200).json(updatedTopic);
+    } catch (error) {
+      res.status(500).json({ message: "Error restoring forum topic" });
+    }
+  });
+
+  app.delete("/api/forum/topics/:id", requirePermission("forum:write"), async (req, res) => {
     try {
       const topicId = parseInt(req.params.id);
       const existingTopic = await storage.getForumTopic(topicId);
@@ -351,13 +489,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Forum topic not found" });
       }
       
-      // Only the author or admin can delete
-      if (existingTopic.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a moderator can delete
+      if (existingTopic.authorId !== req.user!.id && !hasPermission(req.user, "forum:moderate")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
       const result = await storage.deleteForumTopic(topicId);
       if (result) {
+        await recordAudit(req, { action: "delete", entityType: "forum_topic", before: existingTopic });
+        await removeActivitiesFor("new_forum", existingTopic.id);
+        await closeReportsForDeleted(req, "forum_topic", existingTopic.id);
+        await storage.deleteForumReactionsFor("forum_topic", existingTopic.id);
         res.status(200).json({ message: "Forum topic deleted" });
       } else {
         res.status(404).json({ message: "Forum topic not found" });
@@ -370,28 +512,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/forum/topics/:topicId/replies", async (req, res) => {
     try {
       const topicId = parseInt(req.params.topicId);
-      const replies = await storage.getForumRepliesByTopic(topicId);
-      res.status(200).json(replies);
+      const canModerate = hasPermission(req.user, "forum:moderate");
+      const topic = await storage.getForumTopic(topicId);
+      if (!topic || (topic.hiddenAt && !canModerate)) {
+        return res.status(404).json({ message: "Forum topic not found" });
+      }
+
+      const thread = await forumReplyThread(topicId, { canModerate, viewerId: req.user?.id });
+      res.status(200).json(thread);
     } catch (error) {
       res.status(500).json({ message: "Error fetching forum replies" });
     }
   });
 
-  app.post("/api/forum/replies", isAuthenticated, async (req, res) => {
+  app.post("/api/forum/replies", requirePermission("forum:write"), async (req, res) => {
     try {
-      const replyData = insertForumReplySchema.parse(req.body);
+      const replyData = await prepareReply({ ...createForumReplySchema.parse(req.body), authorId: req.user!.id }, {
+        canModerate: hasPermission(req.user, "forum:moderate"),
+      });
       const newReply = await storage.createForumReply(replyData);
+      await recordAudit(req, { action: "create", entityType: "forum_reply", after: newReply });
       res.status(201).json(newReply);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid forum reply data", errors: error.errors });
+      } else if (error instanceof InvalidReplyError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof TopicLockedError) {
+        res.status(403).json({ message: error.message });
       } else {
         res.status(500).json({ message: "Error creating forum reply" });
       }
     }
   });
 
-  app.patch("/api/forum/replies/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/forum/replies/:id", requirePermission("forum:write"), async (req, res) => {
     try {
       const replyId = parseInt(req.params.id);
       const existingReply = await storage.getForumReply(replyId);
@@ -400,19 +555,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Forum reply not found" });
       }
       
-      // Only the author or admin can update
-      if (existingReply.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a moderator can update
+      if (existingReply.authorId !== req.user!.id && !hasPermission(req.user, "forum:moderate")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const updatedReply = await storage.updateForumReply(replyId, req.body);
+      const updatedReply = await storage.updateForumReply(replyId, updateForumReplySchema.parse(req.body));
+      await recordAudit(req, { action: "update", entityType: "forum_reply", before: existingReply, after: updatedReply });
       res.status(200).json(updatedReply);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid forum reply data", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating forum reply" });
     }
   });
 
-  app.delete("/api/forum/replies/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/forum/replies/:id/hide", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const replyId = parseInt(req.params.id);
+      const existingReply = await storage.getForumReply(replyId);
+      if (!existingReply) {
+        return res.status(404).json({ message: "Forum reply not found" });
+      }
+
+      const { reason } = hideForumContentSchema.parse(req.body);
+      const updatedReply = await storage.updateForumReply(replyId, {
+        hiddenAt: new Date(),
+        hiddenBy: req.user!.id,
+        hiddenReason: reason,
+      });
+      await recordAudit(req, { action: "update", entityType: "forum_reply", before: existingReply, after: updatedReply });
+      res.status(200).json(updatedReply);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Motivo inválido", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error hiding forum reply" });
+    }
+  });
+
+  app.post("/api/forum/replies/:id/restore", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const replyId = parseInt(req.params.id);
+      const existingReply = await storage.getForumReply(replyId);
+      if (!existingReply) {
+        return res.status(404).json({ message: "Forum reply not found" });
+      }
+
+      const updatedReply = await storage.updateForumReply(replyId, { hiddenAt: null, hiddenBy: null, hiddenReason: null });
+      await recordAudit(req, { action: "update", entityType: "forum_reply", before: existingReply, after: updatedReply });
+      res.status(200).json(updatedReply);
+    } catch (error) {
+      res.status(500).json({ message: "Error restoring forum reply" });
+    }
+  });
+
+  app.delete("/api/forum/replies/:id", requirePermission("forum:write"), async (req, res) => {
     try {
       const replyId = parseInt(req.params.id);
       const existingReply = await storage.getForumReply(replyId);
@@ -421,13 +620,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Forum reply not found" });
       }
       
-      // Only the author or admin can delete
-      if (existingReply.authorId !== req.user!.id && req.user!.role !== "admin") {
+      // Only the author or a moderator can delete
+      if (existingReply.authorId !== req.user!.id && !hasPermission(req.user, "forum:moderate")) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
       const result = await storage.deleteForumReply(replyId);
       if (result) {
+        await recordAudit(req, { action: "delete", entityType: "forum_reply", before: existingReply });
+        await closeReportsForDeleted(req, "forum_reply", existingReply.id);
+        await storage.deleteForumReactionsFor("forum_reply", existingReply.id);
         res.status(200).json({ message: "Forum reply deleted" });
       } else {
         res.status(404).json({ message: "Forum reply not found" });
@@ -437,8 +639,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reactions: PUT adds the user's reaction and DELETE removes it, so repeating either is harmless
+  const reactionHandler = (entityType: ForumEntityType, reacted: boolean) => async (req: Request, res: Response) => {
+    try {
+      const kind = z.enum(forumReactionKinds).safeParse(req.params.kind);
+      if (!kind.success) {
+        return res.status(400).json({ message: "Reação inválida" });
+      }
+
+      const reactions = await setReaction(entityType, parseInt(req.params.id), kind.data, reacted, {
+        canModerate: hasPermission(req.user, "forum:moderate"),
+        viewerId: req.user!.id,
+      });
+      if (!reactions) {
+        return res.status(404).json({ message: entityType === "forum_topic" ? "Forum topic not found" : "Forum reply not found" });
+      }
+      res.status(200).json(reactions);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating reaction" });
+    }
+  };
+
+  app.put("/api/forum/topics/:id/reactions/:kind", requirePermission("forum:write"), reactionHandler("forum_topic", true));
+  app.delete("/api/forum/topics/:id/reactions/:kind", requirePermission("forum:write"), reactionHandler("forum_topic", false));
+  app.put("/api/forum/replies/:id/reactions/:kind", requirePermission("forum:write"), reactionHandler("forum_reply", true));
+  app.delete("/api/forum/replies/:id/reactions/:kind", requirePermission("forum:write"), reactionHandler("forum_reply", false));
+
+  // Content reports
+  app.post("/api/forum/reports", requirePermission("forum:write"), async (req, res) => {
+    try {
+      const report = await createReport(req.user!.id, createReportSchema.parse(req.body));
+      await recordAudit(req, { action: "create", entityType: "content_report", after: report });
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados da denúncia inválidos", errors: error.errors });
+      } else if (error instanceof InvalidReportError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof DuplicateReportError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Error creating report" });
+      }
+    }
+  });
+
+  app.get("/api/forum/reports", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const status = z.enum(reportStatuses).catch("open").parse(req.query.status);
+      res.status(200).json(await reportQueue(status));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching reports" });
+    }
+  });
+
+  app.get("/api/forum/reports/summary", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      res.status(200).json({ open: await openReportCount() });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching reports" });
+    }
+  });
+
+  app.post("/api/forum/reports/:id/resolve", requirePermission("forum:moderate"), async (req, res) => {
+    try {
+      const report = await storage.getContentReport(parseInt(req.params.id));
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const { action, note } = resolveReportSchema.parse(req.body);
+      // Every open report on the same content is closed with this one
+      const openReports = await storage.listContentReports({
+        status: "open",
+        entityType: report.entityType,
+        entityId: report.entityId,
+      });
+      const closed = await resolveReport(req, report, action, note);
+      for (const closedReport of closed) {
+        const before = openReports.find((openReport) => openReport.id === closedReport.id);
+        await recordAudit(req, { action: "update", entityType: "content_report", before, after: closedReport });
+      }
+      res.status(200).json(closed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Decisão inválida", errors: error.errors });
+      } else if (error instanceof InvalidReportError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Error resolving report" });
+      }
+    }
+  });
+
+  // Prayer requests
+  app.get("/api/prayer-requests/public", async (req, res) => {
+    try {
+      res.status(200).json(await prayerRequestList("community", undefined));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching prayer requests" });
+    }
+  });
+
+  app.get("/api/prayer-requests", isAuthenticated, async (req, res) => {
+    try {
+      const scope = z.enum(prayerListScopes).catch("community").parse(req.query.scope);
+      if (scope === "pastoral" && !hasPermission(req.user, "prayer:pastoral")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      res.status(200).json(await prayerRequestList(scope, req.user));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching prayer requests" });
+    }
+  });
+
+  app.post("/api/prayer-requests", isAuthenticated, async (req, res) => {
+    try {
+      const { durationDays, ...data } = createPrayerRequestSchema.parse(req.body);
+      const newRequest = await storage.createPrayerRequest({
+        ...data,
+        authorId: req.user!.id,
+        expiresAt: prayerExpiry(durationDays),
+      });
+      await recordAudit(req, { action: "create", entityType: "prayer_request", after: newRequest });
+      const [view] = await prayerRequestViews([newRequest], req.user);
+      res.status(201).json(view);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados do pedido inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error creating prayer request" });
+    }
+  });
+
+  app.patch("/api/prayer-requests/:id", isAuthenticated, async (req, res) => {
+    try {
+      const existingRequest = await storage.getPrayerRequest(parseInt(req.params.id));
+      if (!existingRequest || !canSeePrayerRequest(existingRequest, req.user)) {
+        return res.status(404).json({ message: "Prayer request not found" });
+      }
+      if (!canManagePrayerRequest(existingRequest, req.user!)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const { durationDays, ...data } = updatePrayerRequestSchema.parse(req.body);
+      const updatedRequest = await storage.updatePrayerRequest(existingRequest.id, {
+        ...data,
+        ...(durationDays !== undefined && { expiresAt: prayerExpiry(durationDays) }),
+      });
+      await recordAudit(req, { action: "update", entityType: "prayer_request", before: existingRequest, after: updatedRequest });
+      const [view] = await prayerRequestViews([updatedRequest!], req.user);
+      res.status(200).json(view);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados do pedido inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating prayer request" });
+    }
+  });
+
+  // Marks the request as answered, optionally with a testimony for the community
+  app.post("/api/prayer-requests/:id/answer", isAuthenticated, async (req, res) => {
+    try {
+      const existingRequest = await storage.getPrayerRequest(parseInt(req.params.id));
+      if (!existingRequest || !canSeePrayerRequest(existingRequest, req.user)) {
+        return res.status(404).json({ message: "Prayer request not found" });
+      }
+      if (!canManagePrayerRequest(existingRequest, req.user!)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const { testimony } = answerPrayerRequestSchema.parse(req.body);
+      const updatedRequest = await storage.updatePrayerRequest(existingRequest.id, {
+        status: "answered",
+        testimony: testimony || null,
+        answeredAt: existingRequest.answeredAt ?? new Date(),
+      });
+      await recordAudit(req, { action: "update", entityType: "prayer_request", before: existingRequest, after: updatedRequest });
+      const [view] = await prayerRequestViews([updatedRequest!], req.user);
+      res.status(200).json(view);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Testemunho inválido", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error answering prayer request" });
+    }
+  });
+
+  // "Eu orei"; repeating it doesn't count twice
+  app.post("/api/prayer-requests/:id/prayed", isAuthenticated, async (req, res) => {
+    try {
+      const request = await storage.getPrayerRequest(parseInt(req.params.id));
+      if (!request || !canSeePrayerRequest(request, req.user)) {
+        return res.status(404).json({ message: "Prayer request not found" });
+      }
+
+      res.status(200).json(await prayFor(request, req.user!));
+    } catch (error) {
+      if (error instanceof PrayerRequestExpiredError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error recording prayer" });
+    }
+  });
+
+  app.delete("/api/prayer-requests/:id", isAuthenticated, async (req, res) => {
+    try {
+      const existingRequest = await storage.getPrayerRequest(parseInt(req.params.id));
+      if (!existingRequest || !canSeePrayerRequest(existingRequest, req.user)) {
+        return res.status(404).json({ message: "Prayer request not found" });
+      }
+      if (!canManagePrayerRequest(existingRequest, req.user!)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deletePrayerRequest(existingRequest.id);
+      await recordAudit(req, { action: "delete", entityType: "prayer_request", before: existingRequest });
+      res.status(200).json({ message: "Prayer request deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting prayer request" });
+    }
+  });
+
+  // Dashboard cards, each compared with last month
+  app.get("/api/stats", isAuthenticated, async (req, res) => {
+    try {
+      res.status(200).json(await dashboardStats());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching stats" });
+    }
+  });
+
+  const tooManyPeriodsMessages: Record<AnalyticsBucket, string> = {
+    day: "Período longo demais; agrupe por semanas ou meses",
+    week: "Período longo demais; agrupe por meses",
+    month: "Escolha um período menor",
+  };
+
+  const analyticsQuerySchema = z.object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    bucket: z.enum(analyticsBuckets).default("week"),
+  })
+    .refine(({ from, to }) => from < to, { message: "A data inicial deve ser anterior à final", path: ["from"] })
+    // Keeps every series to a size a chart can show
+    .refine(({ from, to, bucket }) => periodCount(from, to, bucket) <= maxAnalyticsPeriods, ({ bucket }) => ({
+      message: tooManyPeriodsMessages[bucket],
+      path: ["bucket"],
+    }));
+
+  // Charts for leaders
+  app.get("/api/analytics", requirePermission("analytics:view"), async (req, res) => {
+    try {
+      const { from, to, bucket } = analyticsQuerySchema.parse(req.query);
+      res.status(200).json(await analyticsReport(from, to, bucket));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Filtros inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching analytics" });
+    }
+  });
+
+  // Activity feed for the dashboard
+  app.get("/api/activity", isAuthenticated, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+      const before = req.query.before ? parseInt(req.query.before as string) : undefined;
+      if (before !== undefined && isNaN(before)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      res.status(200).json(await activityFeedPage({ before, limit }));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching activity" });
+    }
+  });
+
   // User Routes (admin only)
-  app.get("/api/users", isAdmin, async (req, res) => {
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       // Don't send passwords in response
@@ -452,14 +931,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/users/:id", isAdmin, async (req, res) => {
+  app.patch("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
-      // Never allow password updates through this endpoint
-      const { password, ...updateData } = req.body;
+      // Only profile fields and the role; never passwords through this endpoint
+      const updateData = adminUpdateUserSchema.partial().strict().parse(req.body);
       
+      const existingUser = await storage.getUser(userId);
       const updatedUser = await storage.updateUser(userId, updateData);
       if (updatedUser) {
+        await recordAudit(req, { action: "update", entityType: "user", before: existingUser, after: updatedUser });
         // Don't send password in response
         const { password, ...userWithoutPassword } = updatedUser;
         res.status(200).json(userWithoutPassword);
@@ -467,10 +948,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(404).json({ message: "User not found" });
       }
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating user" });
     }
   });
 
+  // Registration review (admin only)
+  app.post("/api/users/:id/approve", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const existingUser = await storage.getUser(userId);
+      const updatedUser = await storage.updateUser(userId, {
+        status: "approved",
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+        rejectionReason: null,
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "user", before: existingUser, after: updatedUser });
+      // Registrations only join the community once approved
+      if (existingUser?.status !== "approved") {
+        await recordActivity("new_member", updatedUser.id, { id: updatedUser.id, title: updatedUser.name });
+      }
+
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Error approving user" });
+    }
+  });
+
+  app.post("/api/users/:id/reject", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Você não pode rejeitar a sua própria conta" });
+      }
+
+      const { reason } = rejectUserSchema.parse(req.body);
+      const existingUser = await storage.getUser(userId);
+      const updatedUser = await storage.updateUser(userId, {
+        status: "rejected",
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+        rejectionReason: reason,
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAudit(req, { action: "update", entityType: "user", before: existingUser, after: updatedUser });
+
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rejection data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error rejecting user" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await unlockLogin(user, req.user!.id);
+      await recordAudit(req, { action: "update", entityType: "user", before: user, after: updatedUser });
+      const { password, ...userWithoutPassword } = updatedUser!;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Error unlocking user" });
+    }
+  });
+
+  // Force logout on every device
+  app.post("/api/users/:id/logout", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Para encerrar as suas sessões, use a página de configurações" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedUser = await logoutEverywhere(user);
+      await recordAudit(req, { action: "update", entityType: "user", before: user, after: updatedUser });
+      const { password, ...userWithoutPassword } = updatedUser!;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Error logging out user" });
+    }
+  });
+
+  const auditLogQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).catch(1),
+    pageSize: z.coerce.number().int().min(1).max(100).catch(50),
+    action: z.enum(auditActions).optional(),
+    entityType: z.enum(auditEntityTypes).optional(),
+    actorId: z.coerce.number().int().optional(),
+    entityId: z.coerce.number().int().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  });
+
+  // Audit log viewer (admin only)
+  app.get("/api/audit-log", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const { page, pageSize, ...filters } = auditLogQuerySchema.parse(req.query);
+      const { items, total } = await storage.listAuditLog({
+        ...filters,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+
+      const actorIds = Array.from(new Set(items.map((entry) => entry.actorId).filter((id): id is number => id !== null)));
+      const actors = await Promise.all(actorIds.map((id) => storage.getUser(id)));
+      const actorNames = new Map(actors.filter((actor) => actor).map((actor) => [actor!.id, actor!.name]));
+
+      const result: AuditLogPage = {
+        items: items.map((entry) => ({
+          ...entry,
+          actorName: entry.actorId !== null ? actorNames.get(entry.actorId) ?? null : null,
+        })),
+        total,
+        page,
+        pageSize,
+      };
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Filtros inválidos", errors: error.errors });
+      }
+      res.status(500).json({ message: "Erro ao buscar o histórico de alterações" });
+    }
+  });
+
   // Site Settings Routes
   app.get("/api/site-settings", async (req, res) => {
     try {
@@ -494,7 +1116,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/site-settings", isAdmin, async (req, res) => {
+  app.post("/api/site-settings", requirePermission("site:manage"), async (req, res) => {
     try {
       const { key, value } = req.body;
       if (!key) {
@@ -511,6 +1133,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           value,
           updatedBy: req.user!.id 
         });
+        await recordAudit(req, { action: "update", entityType: "site_setting", before: existingSetting, after: updated });
         res.status(200).json(updated);
       } else {
         // Create
@@ -519,6 +1142,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           value, 
           updatedBy: req.user!.id 
         });
+        await recordAudit(req, { action: "create", entityType: "site_setting", after: newSetting });
         res.status(201).json(newSetting);
       }
     } catch (error) {
@@ -527,7 +1151,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Batch update site settings (admin only)
-  app.post("/api/site-settings/batch", isAdmin, async (req, res) => {
+  app.post("/api/site-settings/batch", requirePermission("site:manage"), async (req, res) => {
     try {
       if (!Array.isArray(req.body)) {
         return res.status(400).json({ message: "Request body must be an array" });
@@ -549,6 +1173,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             value,
             updatedBy: req.user!.id 
           });
+          await recordAudit(req, { action: "update", entityType: "site_setting", before: existingSetting, after: updated });
           results.push(updated);
         } else {
           // Create
@@ -557,6 +1182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             value,
             updatedBy: req.user!.id 
           });
+          await recordAudit(req, { action: "create", entityType: "site_setting", after: newSetting });
           results.push(newSetting);
         }
       }
@@ -568,39 +1194,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Media upload endpoints
-  app.post("/api/upload", isAuthenticated, async (req, res) => {
-    try {
-      // Na implementação real, aqui você processaria o upload de arquivo,
-      // salvaria no servidor ou serviço de armazenamento (como S3) e 
-      // retornaria a URL. Para este protótipo, simularemos que foi salvo.
-      
-      // Simulação: retorna uma URL fake para o arquivo
-      // Em produção, use uma biblioteca como multer para processar o upload
-      // e gerar URLs reais para os arquivos
-      res.status(200).json({ 
-        url: `https://exemplo.com/uploads/${Date.now()}.jpg`,
-        message: "Arquivo enviado com sucesso" 
+  if (fileStorage instanceof LocalDiskDriver) {
+    app.use(fileStorage.publicPath, express.static(fileStorage.rootDir, {
+      index: false,
+      setHeaders: (res, filePath) => {
+        res.setHeader("X-Content-Type-Options", "nosniff");
+        // Uploaded SVGs must never run scripts in our origin
+        if (filePath.endsWith(".svg")) {
+          res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+        }
+      },
+    }));
+    // Don't let missing files fall through to the client app
+    app.use(fileStorage.publicPath, (req, res) => {
+      res.status(404).json({ message: "Arquivo não encontrado" });
+    });
+  }
+
+  const receiveUpload = (req: Request, res: Response, next: Function) => {
+    uploadMiddleware.single("file")(req, res, (error: unknown) => {
+      if (!error) return next();
+
+      if (error instanceof UnsupportedFileTypeError) {
+        return res.status(415).json({ message: error.message });
+      }
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        const maxSizeMb = Math.round(maxUploadSize / 1024 / 1024);
+        return res.status(413).json({ message: `Arquivo maior que o limite de ${maxSizeMb} MB` });
+      }
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Erro ao fazer upload do arquivo" });
+    });
+  };
+
+  app.post("/api/upload", requirePermission("media:upload"), receiveUpload, async (req, res) => {
+    let stored: StoredFile | undefined;
+    let variants: MediaVariant[] = [];
+    let newMedia: Media | undefined;
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhum arquivo enviado" });
+      }
+
+      // Checked before anything is written so bad files leave nothing behind
+      const { width, height } = await readImageSize(req.file.buffer, req.file.mimetype);
+      stored = await fileStorage.save({
+        buffer: req.file.buffer,
+        mimeType: req.file.mimetype,
+        originalName: req.file.originalname,
+      });
+      variants = await createImageVariants(stored, req.file.buffer);
+
+      newMedia = await storage.createMedia({
+        url: stored.url,
+        storageKey: stored.key,
+        fileName: stored.originalName,
+        mimeType: stored.mimeType,
+        size: stored.size,
+        width,
+        height,
+        variants,
+        uploadedBy: req.user!.id,
+      });
+      await recordAudit(req, { action: "create", entityType: "media", after: newMedia });
+
+      res.status(201).json({
+        ...newMedia,
+        message: "Arquivo enviado com sucesso"
       });
     } catch (error) {
+      if (error instanceof InvalidImageError) {
+        return res.status(415).json({ message: error.message });
+      }
+      // Without a media row nothing points at the files this upload wrote
+      if (!newMedia) {
+        const keys = [stored?.key, ...variants.map((variant) => variant.storageKey)];
+        for (const key of keys) {
+          if (key) await fileStorage.delete(key).catch(() => {});
+        }
+      }
       res.status(500).json({ message: "Erro ao fazer upload do arquivo" });
     }
   });
   
-  // Obter mídias (simplificado para protótipo)
+  // Media library
   app.get("/api/media", isAuthenticated, async (req, res) => {
     try {
-      // Aqui você buscaria as mídias do usuário no banco de dados
-      // Para o protótipo, retornamos algumas URLs de exemplo
-      res.status(200).json([
-        { id: 1, url: "https://exemplo.com/uploads/1.jpg", title: "Imagem 1", type: "image" },
-        { id: 2, url: "https://exemplo.com/uploads/2.jpg", title: "Imagem 2", type: "image" },
-        { id: 3, url: "https://exemplo.com/uploads/3.pdf", title: "Documento 1", type: "document" }
-      ]);
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 24, 1), 100);
+      const type = req.query.type === "image" || req.query.type === "document"
+        ? req.query.type as MediaType
+        : undefined;
+      const search = typeof req.query.search === "string" && req.query.search.trim()
+        ? req.query.search.trim()
+        : undefined;
+
+      const { items, total } = await storage.listMedia({
+        search,
+        type,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      res.status(200).json({ items, total, page, pageSize });
     } catch (error) {
       res.status(500).json({ message: "Erro ao buscar mídias" });
     }
   });
 
+  // Public: lets pages build srcset for images used in the site, posts and logo
+  app.get("/api/media/resolve", async (req, res) => {
+    try {
+      const url = req.query.url;
+      if (typeof url !== "string" || !url) {
+        return res.status(400).json({ message: "URL é obrigatória" });
+      }
+
+      const item = await storage.getMediaByUrl(url);
+      if (!item) {
+        return res.status(404).json({ message: "Mídia não encontrada" });
+      }
+
+      const { url: mediaUrl, mimeType, width, height, variants } = item;
+      res.status(200).json({
+        url: mediaUrl,
+        mimeType,
+        width,
+        height,
+        variants: variants.map(({ storageKey, ...variant }) => variant),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar mídia" });
+    }
+  });
+
+  app.get("/api/media/:id", isAuthenticated, async (req, res) => {
+    try {
+      const item = await storage.getMedia(parseInt(req.params.id));
+      if (item) {
+        res.status(200).json(item);
+      } else {
+        res.status(404).json({ message: "Mídia não encontrada" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao buscar mídia" });
+    }
+  });
+
+  const updateMediaSchema = z.object({
+    fileName: z.string().trim().min(1).max(255).optional(),
+    altText: z.string().max(500).nullable().optional(),
+  });
+
+  app.patch("/api/media/:id", isAuthenticated, async (req, res) => {
+    try {
+      const mediaId = parseInt(req.params.id);
+      const existingMedia = await storage.getMedia(mediaId);
+
+      if (!existingMedia) {
+        return res.status(404).json({ message: "Mídia não encontrada" });
+      }
+
+      // Only the uploader or a media manager can update
+      if (existingMedia.uploadedBy !== req.user!.id && !hasPermission(req.user, "media:manage")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const mediaData = updateMediaSchema.parse(req.body);
+      const updatedMedia = await storage.updateMedia(mediaId, mediaData);
+      await recordAudit(req, { action: "update", entityType: "media", before: existingMedia, after: updatedMedia });
+      res.status(200).json(updatedMedia);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Dados de mídia inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Erro ao atualizar mídia" });
+      }
+    }
+  });
+
+  app.delete("/api/media/:id", isAuthenticated, async (req, res) => {
+    try {
+      const mediaId = parseInt(req.params.id);
+      const existingMedia = await storage.getMedia(mediaId);
+
+      if (!existingMedia) {
+        return res.status(404).json({ message: "Mídia não encontrada" });
+      }
+
+      // Only the uploader or a media manager can delete
+      if (existingMedia.uploadedBy !== req.user!.id && !hasPermission(req.user, "media:manage")) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      for (const variant of existingMedia.variants) {
+        await fileStorage.delete(variant.storageKey);
+      }
+      await fileStorage.delete(existingMedia.storageKey);
+      await storage.deleteMedia(mediaId);
+      await recordAudit(req, { action: "delete", entityType: "media", before: existingMedia });
+      res.status(200).json({ message: "Mídia excluída" });
+    } catch (error) {
+      res.status(500).json({ message: "Erro ao excluir mídia" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,115 @@
+import { randomBytes } from "crypto";
+import { storage, DatabaseStorage } from "./storage";
+import { hashPassword } from "./auth";
+import { defaultSiteSettings } from "@shared/site-defaults";
+import type { InsertEvent } from "@shared/schema";
+
+// Seeds the first admin, a few sample events and the default site settings.
+// Safe to run repeatedly: existing rows are left untouched.
+
+// Next occurrence of a weekday (0 = Sunday), never today
+function nextWeekday(weekday: number, hour: number) {
+  const date = new Date();
+  date.setDate(date.getDate() + (((weekday - date.getDay() + 7) % 7) || 7));
+  date.setHours(hour, 0, 0, 0);
+  return date;
+}
+
+function hoursAfter(date: Date, hours: number) {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
+async function seedAdmin() {
+  const username = process.env.SEED_ADMIN_USERNAME || "admin";
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    console.log(`admin "${username}" já existe`);
+    return existing;
+  }
+
+  const password = process.env.SEED_ADMIN_PASSWORD || randomBytes(9).toString("base64url");
+  const admin = await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    name: process.env.SEED_ADMIN_NAME || "Administrador",
+    email: process.env.SEED_ADMIN_EMAIL || "admin@ibiparnaiba.com.br",
+    role: "admin",
+  });
+
+  console.log(`admin "${username}" criado`);
+  if (!process.env.SEED_ADMIN_PASSWORD) {
+    console.log(`senha gerada: ${password}`);
+  }
+  return admin;
+}
+
+async function seedEvents(adminId: number) {
+  const sundayService = nextWeekday(0, 19);
+  const wednesdayStudy = nextWeekday(3, 19);
+  const youthMeeting = nextWeekday(6, 18);
+
+  const sampleEvents: InsertEvent[] = [
+    {
+      title: "Culto de Celebração",
+      description: "Culto dominical com louvor e pregação da Palavra.",
+      eventType: "worship",
+      startTime: sundayService,
+      endTime: hoursAfter(sundayService, 2),
+      location: "Templo principal",
+      createdBy: adminId,
+    },
+    {
+      title: "Estudo Bíblico",
+      description: "Estudo bíblico de quarta-feira.",
+      eventType: "study",
+      startTime: wednesdayStudy,
+      endTime: hoursAfter(wednesdayStudy, 1.5),
+      location: "Salão de estudos",
+      createdBy: adminId,
+    },
+    {
+      title: "Encontro de Jovens",
+      description: "Louvor, comunhão e estudo para os jovens da igreja.",
+      eventType: "youth",
+      startTime: youthMeeting,
+      endTime: hoursAfter(youthMeeting, 2),
+      location: "Salão de jovens",
+      createdBy: adminId,
+    },
+  ];
+
+  const existingTitles = new Set((await storage.getAllEvents()).map(event => event.title));
+  for (const event of sampleEvents) {
+    if (existingTitles.has(event.title)) continue;
+    await storage.createEvent(event);
+    console.log(`evento "${event.title}" criado`);
+  }
+}
+
+async function seedSiteSettings(adminId: number) {
+  for (const [key, value] of Object.entries(defaultSiteSettings)) {
+    if (await storage.getSiteSetting(key)) continue;
+    await storage.createSiteSetting({ key, value: String(value), updatedBy: adminId });
+    console.log(`configuração "${key}" criada`);
+  }
+}
+
+async function seed() {
+  if (!(storage instanceof DatabaseStorage)) {
+    throw new Error("db:seed requires the database storage (set DATABASE_URL)");
+  }
+
+  const admin = await seedAdmin();
+  await seedEvents(admin.id);
+  await seedSiteSettings(admin.id);
+}
+
+seed()
+  .then(() => {
+    console.log("seed concluído");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,157 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import type session from "express-session";
+import { createHash } from "crypto";
+import type { ActiveSession, User } from "@shared/schema";
+import { storage, type StoredSession } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // Where the session is being used from, for the sessions list
+    client?: {
+      userAgent: string | null;
+      ipAddress: string | null;
+      createdAt: number;
+      lastSeenAt: number;
+    };
+  }
+}
+
+// Refreshing the last-seen time on every request would rewrite the session each time
+const lastSeenResolutionMs = 60 * 1000;
+
+export function trackSession(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    const now = Date.now();
+    const client = req.session.client;
+    if (!client || now - client.lastSeenAt > lastSeenResolutionMs) {
+      req.session.client = {
+        userAgent: req.get("user-agent") ?? null,
+        ipAddress: req.ip ?? null,
+        createdAt: client?.createdAt ?? now,
+        lastSeenAt: now,
+      };
+    }
+  }
+  next();
+}
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const systems: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Dispositivo desconhecido";
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} em ${system}`;
+  return browser ?? system ?? "Dispositivo desconhecido";
+}
+
+// The session id is what the cookie carries, so clients only ever see a hash of it
+function publicSessionId(sid: string) {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+// Sessions from before the user's last password change (or forced logout) are dead
+async function liveSessions(user: User) {
+  const sessions = await storage.getUserSessions(user.id);
+  return sessions.filter(({ session }) => {
+    const sessionUser = session.passport?.user;
+    const version = typeof sessionUser === "number" ? 0 : sessionUser?.sessionVersion;
+    return version === user.sessionVersion;
+  });
+}
+
+function destroySession(store: session.Store, sid: string) {
+  return new Promise<void>((resolve, reject) => {
+    store.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+async function destroySessions(sessions: StoredSession[]) {
+  await Promise.all(sessions.map(({ sid }) => destroySession(storage.sessionStore, sid)));
+}
+
+function toActiveSession({ sid, session }: StoredSession, currentSid: string): ActiveSession {
+  const client = session.client;
+  const lastSeenAt = new Date(client?.lastSeenAt ?? Date.now()).toISOString();
+  return {
+    id: publicSessionId(sid),
+    device: describeUserAgent(client?.userAgent ?? null),
+    ipAddress: client?.ipAddress ?? null,
+    createdAt: client ? new Date(client.createdAt).toISOString() : lastSeenAt,
+    lastSeenAt,
+    current: sid === currentSid,
+  };
+}
+
+// Ends every session of the user, including ones the store can't list
+export async function logoutEverywhere(user: User) {
+  const sessions = await liveSessions(user);
+  const updatedUser = await storage.updateUser(user.id, { sessionVersion: user.sessionVersion + 1 });
+  await destroySessions(sessions);
+  return updatedUser;
+}
+
+export function registerSessionRoutes(app: Express) {
+  app.get("/api/user/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      // The store may not have this request's trackSession update yet
+      const sessions = (await liveSessions(req.user!))
+        .map((stored) => stored.sid === req.sessionID ? { sid: stored.sid, session: req.session } : stored)
+        .map((stored) => toActiveSession(stored, req.sessionID))
+        .sort((a, b) => Number(b.current) - Number(a.current) || b.lastSeenAt.localeCompare(a.lastSeenAt));
+      res.status(200).json(sessions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Logs out every other device; this one stays logged in
+  app.delete("/api/user/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const others = (await liveSessions(req.user!)).filter(({ sid }) => sid !== req.sessionID);
+      await destroySessions(others);
+      res.status(200).json({ revoked: others.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const target = (await liveSessions(req.user!)).find(({ sid }) => publicSessionId(sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Sessão não encontrada" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Para encerrar esta sessão, use a opção Sair" });
+      }
+
+      await destroySessions([target]);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
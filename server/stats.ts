@@ -0,0 +1,121 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, differenceInCalendarMonths, differenceInCalendarWeeks, startOfDay, startOfMonth, startOfWeek, subMilliseconds, subMonths } from "date-fns";
+import type { AnalyticsBucket, AnalyticsReport, DashboardStats, PeriodStat } from "@shared/schema";
+import { storage, type PeriodCount } from "./storage";
+
+function periodStat(value: number, previous: number): PeriodStat {
+  return {
+    value,
+    previous,
+    change: previous === 0 ? null : Math.round(((value - previous) / previous) * 100),
+  };
+}
+
+// Periods are calendar months. Totals compare against the end of last month;
+// things that happen over time compare month-to-date against the same stretch
+// of last month, so an early-month dashboard isn't always showing a drop.
+export async function dashboardStats(now = new Date()): Promise<DashboardStats> {
+  const monthStart = startOfMonth(now);
+  const nextMonthStart = addMonths(monthStart, 1);
+  const lastMonthStart = subMonths(monthStart, 1);
+  const lastMonthSoFar = subMonths(now, 1);
+  const today = startOfDay(now);
+
+  const [
+    members,
+    membersBefore,
+    eventsThisMonth,
+    eventsLastMonth,
+    studies,
+    studiesBefore,
+    topics,
+    topicsBefore,
+    replies,
+    repliesBefore,
+    eventsToday,
+  ] = await Promise.all([
+    storage.countRecords("members"),
+    storage.countRecords("members", { to: monthStart }),
+    storage.countRecords("events", { from: monthStart, to: nextMonthStart }),
+    storage.countRecords("events", { from: lastMonthStart, to: monthStart }),
+    storage.countRecords("studies"),
+    storage.countRecords("studies", { to: monthStart }),
+    storage.countRecords("forumTopics", { from: monthStart, to: now }),
+    storage.countRecords("forumTopics", { from: lastMonthStart, to: lastMonthSoFar }),
+    storage.countRecords("forumReplies", { from: monthStart, to: now }),
+    storage.countRecords("forumReplies", { from: lastMonthStart, to: lastMonthSoFar }),
+    storage.countRecords("events", { from: today, to: addDays(today, 1) }),
+  ]);
+
+  return {
+    totalMembers: periodStat(members, membersBefore),
+    monthlyEvents: periodStat(eventsThisMonth, eventsLastMonth),
+    publishedStudies: periodStat(studies, studiesBefore),
+    forumActivity: periodStat(topics + replies, topicsBefore + repliesBefore),
+    eventsToday,
+  };
+}
+
+// Longest series a chart can show, for any bucket
+export const maxAnalyticsPeriods = 366;
+
+const buckets: Record<AnalyticsBucket, {
+  start: (date: Date) => Date;
+  next: (date: Date) => Date;
+  between: (later: Date, earlier: Date) => number;
+}> = {
+  day: { start: startOfDay, next: (date) => addDays(date, 1), between: differenceInCalendarDays },
+  week: {
+    start: (date) => startOfWeek(date, { weekStartsOn: 1 }),
+    next: (date) => addWeeks(date, 1),
+    between: (later, earlier) => differenceInCalendarWeeks(later, earlier, { weekStartsOn: 1 }),
+  },
+  month: { start: startOfMonth, next: (date) => addMonths(date, 1), between: differenceInCalendarMonths },
+};
+
+// How many periods touch [from, to), without listing them
+export function periodCount(from: Date, to: Date, bucket: AnalyticsBucket) {
+  if (from >= to) return 0;
+  return buckets[bucket].between(subMilliseconds(to, 1), from) + 1;
+}
+
+// Every period touching [from, to), so charts show gaps as zeros
+function periodsBetween(from: Date, to: Date, bucket: AnalyticsBucket) {
+  const { start, next } = buckets[bucket];
+  const periods: string[] = [];
+  for (let period = start(from); period < to; period = next(period)) {
+    periods.push(period.toISOString());
+  }
+  return periods;
+}
+
+function countsByPeriod(rows: PeriodCount[]) {
+  return new Map(rows.map((row) => [row.period.toISOString(), row.count]));
+}
+
+export async function analyticsReport(from: Date, to: Date, bucket: AnalyticsBucket): Promise<AnalyticsReport> {
+  const range = { from, to };
+  const [members, eventsByType, studiesByCategory, topics, replies, posts] = await Promise.all([
+    storage.countRecordsByPeriod("members", bucket, range).then(countsByPeriod),
+    storage.countRecordsByGroup("events", range),
+    storage.countRecordsByGroup("studies", range),
+    storage.countRecordsByPeriod("forumTopics", bucket, range).then(countsByPeriod),
+    storage.countRecordsByPeriod("forumReplies", bucket, range).then(countsByPeriod),
+    storage.countRecordsByPeriod("posts", bucket, range).then(countsByPeriod),
+  ]);
+
+  const periods = periodsBetween(from, to, bucket);
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket,
+    members: periods.map((period) => ({ period, count: members.get(period) ?? 0 })),
+    eventsByType,
+    studiesByCategory,
+    forum: periods.map((period) => ({
+      period,
+      topics: topics.get(period) ?? 0,
+      replies: replies.get(period) ?? 0,
+    })),
+    posts: periods.map((period) => ({ period, count: posts.get(period) ?? 0 })),
+  };
+}
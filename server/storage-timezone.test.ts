@@ -0,0 +1,64 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage } from "./storage";
+
+// A server three hours behind UTC, where local midnight is 03:00 UTC
+process.env.TZ = "America/Fortaleza";
+
+describe("countRecordsByPeriod outside UTC", () => {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  const database = new DatabaseStorage(db);
+  const memory = new MemStorage();
+  const range = { from: new Date("2030-09-01T03:00:00.000Z"), to: new Date("2030-12-01T03:00:00.000Z") };
+
+  // Each one falls on the previous local day, week or month than its UTC date
+  const startTimes = [
+    "2030-10-07T02:00:00.000Z", // Sunday 23:00 local, before a Monday in UTC
+    "2030-10-07T04:00:00.000Z",
+    "2030-11-01T01:00:00.000Z", // still October 31 locally
+  ];
+
+  before(async () => {
+    await migrate(db, { migrationsFolder: "migrations" });
+    for (const storage of [database, memory]) {
+      const author = await storage.createUser({ username: "pastor", password: "hash", name: "Pastor", email: "pastor@example.com" });
+      for (const startTime of startTimes) {
+        await storage.createEvent({
+          title: "Culto",
+          eventType: "culto",
+          startTime: new Date(startTime),
+          endTime: new Date(startTime),
+          location: "Templo",
+          createdBy: author.id,
+        });
+      }
+    }
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  for (const bucket of schema.analyticsBuckets) {
+    it(`buckets by local ${bucket} like the in-memory storage`, async () => {
+      const periods = await database.countRecordsByPeriod("events", bucket, range);
+      assert.deepEqual(periods, await memory.countRecordsByPeriod("events", bucket, range));
+    });
+  }
+
+  it("starts periods at local midnight", async () => {
+    const days = await database.countRecordsByPeriod("events", "day", range);
+    assert.deepEqual(days.map(({ period }) => period.toISOString()), [
+      "2030-10-06T03:00:00.000Z",
+      "2030-10-07T03:00:00.000Z",
+      "2030-10-31T03:00:00.000Z",
+    ]);
+    const months = await database.countRecordsByPeriod("events", "month", range);
+    assert.deepEqual(months.map(({ period, count }) => [period.toISOString(), count]), [["2030-10-01T03:00:00.000Z", 3]]);
+  });
+});
@@ -0,0 +1,200 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { addDays } from "date-fns";
+import * as schema from "@shared/schema";
+import { DatabaseStorage } from "./storage";
+
+// Runs DatabaseStorage against an in-process Postgres with the real migrations
+describe("DatabaseStorage", () => {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  const storage = new DatabaseStorage(db);
+  let authorId: number;
+
+  before(async () => {
+    await migrate(db, { migrationsFolder: "migrations" });
+    const author = await storage.createUser({
+      username: "pastor",
+      password: "hash",
+      name: "Pastor João",
+      email: "pastor@example.com",
+      role: "pastor",
+    });
+    authorId = author.id;
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("creates, finds and updates users", async () => {
+    const user = await storage.createUser({
+      username: "maria",
+      password: "hash",
+      name: "Maria",
+      email: "Maria@Example.com",
+    });
+    assert.equal(user.role, "member");
+    assert.equal((await storage.getUser(user.id))?.username, "maria");
+    assert.equal((await storage.getUserByUsername("maria"))?.id, user.id);
+    assert.deepEqual((await storage.getUsersByEmail("maria@example.com")).map((u) => u.id), [user.id]);
+    assert.deepEqual((await storage.getUsersByIds([user.id, user.id, 9999])).map((u) => u.id), [user.id]);
+    assert.deepEqual(await storage.getUsersByIds([]), []);
+
+    const updated = await storage.updateUser(user.id, { name: "Maria Silva" });
+    assert.equal(updated?.name, "Maria Silva");
+    assert.equal(await storage.updateUser(9999, { name: "Ninguém" }), undefined);
+
+    assert.equal((await storage.recordFailedLogin(user.id))?.failedLoginAttempts, 1);
+    assert.equal((await storage.recordFailedLogin(user.id))?.failedLoginAttempts, 2);
+  });
+
+  it("runs the event life cycle and lists upcoming events", async () => {
+    const now = new Date();
+    const past = await storage.createEvent({
+      title: "Culto passado",
+      eventType: "culto",
+      startTime: addDays(now, -7),
+      endTime: addDays(now, -7),
+      location: "Templo",
+      createdBy: authorId,
+    });
+    const next = await storage.createEvent({
+      title: "Culto de domingo",
+      eventType: "culto",
+      startTime: addDays(now, 2),
+      endTime: addDays(now, 2),
+      location: "Templo",
+      createdBy: authorId,
+    });
+
+    assert.equal((await storage.getEvent(next.id))?.title, "Culto de domingo");
+    assert.deepEqual((await storage.getUpcomingEvents(5)).map((e) => e.id), [next.id]);
+    assert.equal((await storage.updateEvent(next.id, { location: "Salão" }))?.location, "Salão");
+    // Dates arrive from the client as ISO strings and go through the route schema
+    const moved = await storage.updateEvent(next.id, schema.updateEventSchema.parse({ startTime: "2026-10-20T10:00:00.000Z" }));
+    assert.equal(moved?.startTime.toISOString(), "2026-10-20T10:00:00.000Z");
+    assert.equal((await storage.getAllEvents()).length, 2);
+
+    assert.equal(await storage.deleteEvent(past.id), true);
+    assert.equal(await storage.deleteEvent(past.id), false);
+    assert.equal(await storage.getEvent(past.id), undefined);
+  });
+
+  it("stores studies and posts", async () => {
+    const study = await storage.createStudy({ title: "Salmos", content: "Salmo 23", category: "Antigo Testamento", authorId });
+    assert.equal((await storage.updateStudy(study.id, { title: "Salmos 23" }))?.title, "Salmos 23");
+    assert.deepEqual((await storage.getAllStudies()).map((s) => s.id), [study.id]);
+
+    const post = await storage.createPost({ title: "Boas-vindas", content: "Olá", authorId });
+    assert.equal(post.isPublished, true);
+    assert.equal((await storage.getPost(post.id))?.title, "Boas-vindas");
+    assert.equal(await storage.deletePost(post.id), true);
+    assert.deepEqual(await storage.getAllPosts(), []);
+  });
+
+  it("keeps forum topics and replies", async () => {
+    const topic = await storage.createForumTopic({ title: "Escola dominical", content: "Horários", category: "Dúvida", authorId });
+    const reply = await storage.createForumReply({ topicId: topic.id, content: "Às 9h", authorId });
+
+    assert.deepEqual((await storage.getForumRepliesByTopic(topic.id)).map((r) => r.id), [reply.id]);
+    assert.equal((await storage.updateForumTopic(topic.id, { title: "Escola bíblica" }))?.title, "Escola bíblica");
+    assert.equal((await storage.updateForumReply(reply.id, { content: "Às 9h30" }))?.content, "Às 9h30");
+    assert.equal(await storage.deleteForumReply(reply.id), true);
+    assert.equal(await storage.deleteForumTopic(topic.id), true);
+    assert.equal(await storage.getForumTopic(topic.id), undefined);
+  });
+
+  it("summarizes replies per topic, leaving hidden ones out unless asked", async () => {
+    const topic = await storage.createForumTopic({ title: "Retiro", content: "Quem vai?", category: "Anúncio", authorId });
+    const member = await storage.createUser({ username: "joana", password: "hash", name: "Joana", email: "joana@example.com" });
+    const first = await storage.createForumReply({ topicId: topic.id, content: "Eu vou", authorId });
+    const second = await storage.createForumReply({ topicId: topic.id, content: "Spam", authorId: member.id });
+    await storage.updateForumReply(second.id, { hiddenAt: new Date(), hiddenBy: authorId });
+
+    const statsFor = async (includeHidden: boolean) =>
+      (await storage.getForumReplyStats({ includeHidden })).find((stats) => stats.topicId === topic.id);
+
+    const all = await statsFor(true);
+    assert.equal(all?.replyCount, 2);
+    assert.equal(all?.lastReplyAuthorId, member.id);
+
+    const visible = await statsFor(false);
+    assert.equal(visible?.replyCount, 1);
+    assert.equal(visible?.lastReplyAuthorId, authorId);
+    assert.deepEqual(visible?.lastReplyAt, first.createdAt);
+
+    await storage.updateForumReply(first.id, { hiddenAt: new Date(), hiddenBy: authorId });
+    assert.equal(await statsFor(false), undefined);
+  });
+
+  it("adds and removes forum reactions idempotently", async () => {
+    const topic = await storage.createForumTopic({ title: "Louvor", content: "Ensaio", category: "Anúncio", authorId });
+    const reaction = { entityType: "forum_topic", entityId: topic.id, userId: authorId, kind: "amen" };
+
+    await storage.addForumReaction(reaction);
+    await storage.addForumReaction(reaction);
+    assert.equal((await storage.getForumReactions("forum_topic", [topic.id])).length, 1);
+
+    await storage.removeForumReaction(reaction);
+    await storage.removeForumReaction(reaction);
+    assert.deepEqual(await storage.getForumReactions("forum_topic", [topic.id]), []);
+
+    await storage.addForumReaction({ ...reaction, kind: "heart" });
+    await storage.deleteForumReactionsFor("forum_topic", topic.id);
+    assert.deepEqual(await storage.getForumReactions("forum_topic", [topic.id]), []);
+  });
+
+  it("filters prayer requests and counts each intercession once", async () => {
+    const now = new Date();
+    const open = await storage.createPrayerRequest({
+      title: "Saúde",
+      content: "Pela recuperação da minha mãe",
+      authorId,
+      visibility: "public",
+      expiresAt: addDays(now, 7),
+    });
+    await storage.createPrayerRequest({
+      title: "Emprego",
+      content: "Por uma nova oportunidade",
+      authorId,
+      visibility: "pastoral",
+      expiresAt: addDays(now, -1),
+    });
+
+    assert.deepEqual((await storage.listPrayerRequests({ activeAt: now })).map((r) => r.id), [open.id]);
+    assert.equal((await storage.listPrayerRequests({ authorId })).length, 2);
+    assert.equal((await storage.listPrayerRequests({ visibilities: ["pastoral"] })).length, 1);
+
+    await storage.addPrayerIntercession({ requestId: open.id, userId: authorId });
+    await storage.addPrayerIntercession({ requestId: open.id, userId: authorId });
+    assert.equal((await storage.getPrayerIntercessions([open.id])).length, 1);
+
+    assert.equal(await storage.deletePrayerRequest(open.id), true);
+    assert.deepEqual(await storage.getPrayerIntercessions([open.id]), []);
+  });
+
+  it("stores site settings and media", async () => {
+    const setting = await storage.createSiteSetting({ key: "siteName", value: "IBI Parnaíba", updatedBy: authorId });
+    assert.equal((await storage.updateSiteSetting(setting.id, { value: "Igreja Batista" }))?.value, "Igreja Batista");
+    assert.equal((await storage.getSiteSetting("siteName"))?.value, "Igreja Batista");
+    assert.equal((await storage.getAllSiteSettings()).length, 1);
+
+    const item = await storage.createMedia({
+      url: "/uploads/2026/10/foto.jpg",
+      storageKey: "2026/10/foto.jpg",
+      fileName: "foto.jpg",
+      mimeType: "image/jpeg",
+      size: 1024,
+      uploadedBy: authorId,
+    });
+    assert.equal((await storage.getMediaByUrl(item.url))?.id, item.id);
+    const { items, total } = await storage.listMedia({ search: "foto", type: "image", limit: 10, offset: 0 });
+    assert.equal(total, 1);
+    assert.equal(items[0].id, item.id);
+    assert.equal(await storage.deleteMedia(item.id), true);
+  });
+});
@@ -1,16 +1,161 @@
-import { users, type User, type InsertUser, events, type Event, type InsertEvent, studies, type Study, type InsertStudy, posts, type Post, type InsertPost, forumTopics, type ForumTopic, type InsertForumTopic, forumReplies, type ForumReply, type InsertForumReply, siteSettings, type SiteSetting, type InsertSiteSetting } from "@shared/schema";
+import { users, type User, type InsertUser, events, type Event, type InsertEvent, studies, type Study, type InsertStudy, posts, type Post, type InsertPost, forumTopics, type ForumTopic, type InsertForumTopic, forumReplies, type ForumReply, type InsertForumReply, siteSettings, type SiteSetting, type InsertSiteSetting, media, type Media, type InsertMedia, type MediaType, passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken, loginLockEvents, type LoginLockEvent, type InsertLoginLockEvent, twoFactorCredentials, type TwoFactorCredential, type InsertTwoFactorCredential, auditLog, type AuditLogEntry, type InsertAuditLogEntry, activities, type Activity, type InsertActivity, contentReports, type ContentReport, type InsertContentReport, forumReactions, type ForumReaction, type InsertForumReaction, prayerRequests, type PrayerRequest, type InsertPrayerRequest, prayerIntercessions, type PrayerIntercession, type InsertPrayerIntercession, type AnalyticsBucket } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { eq, gt, gte, lt, lte, asc, desc, and, or, ilike, like, notLike, count, isNull, inArray, sql, type SQL } from "drizzle-orm";
+import { pgTable, varchar, json, timestamp } from "drizzle-orm/pg-core";
+import { startOfDay, startOfMonth, startOfWeek } from "date-fns";
+import { connectDatabase, type Database } from "./db";
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export interface MediaListOptions {
+  search?: string;
+  type?: MediaType;
+  limit: number;
+  offset: number;
+}
+
+export interface AuditLogListOptions {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: number;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+// Records that can be counted for statistics, each by its own date:
+// approved members and published posts by creation, events by when they happen
+export type CountableEntity = "members" | "events" | "studies" | "posts" | "forumTopics" | "forumReplies";
+
+// Records that can be broken down by a text column: events by type, studies by category
+export type GroupableEntity = "events" | "studies";
+
+// Half-open: from is included, to is not
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface PeriodCount {
+  // Start of the day, week (Monday) or month
+  period: Date;
+  count: number;
+}
+
+export interface GroupCount {
+  group: string;
+  count: number;
+}
+
+export interface ForumReplyStats {
+  topicId: number;
+  replyCount: number;
+  lastReplyAt: Date | null;
+  lastReplyAuthorId: number;
+}
+
+export interface ContentReportFilter {
+  status?: string;
+  entityType?: string;
+  entityId?: number;
+  reporterId?: number;
+}
+
+export interface PrayerRequestFilter {
+  authorId?: number;
+  visibilities?: string[];
+  // Only requests that haven't expired at this moment
+  activeAt?: Date;
+}
+
+export interface StoredSession {
+  sid: string;
+  session: session.SessionData;
+}
+
+// Table created and owned by connect-pg-simple, so it stays out of the
+// shared schema and its migrations; declared here only to read from it
+const sessionTable = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").$type<session.SessionData>().notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+});
+
+// Passport keeps the user as { id, sessionVersion } (a bare id in older sessions)
+function sessionUserId(data: session.SessionData) {
+  const user = data.passport?.user;
+  return typeof user === "number" ? user : user?.id;
+}
+
+// Works with any store that can list its sessions keyed by id (memorystore does)
+function listStoreSessions(store: session.Store, userId: number): Promise<StoredSession[]> {
+  return new Promise((resolve, reject) => {
+    if (!store.all) return resolve([]);
+    store.all((err, sessions) => {
+      if (err) return reject(err);
+      if (!sessions || Array.isArray(sessions)) return resolve([]);
+      resolve(
+        Object.entries(sessions)
+          .filter(([, data]) => sessionUserId(data) === userId)
+          .map(([sid, data]) => ({ sid, session: data })),
+      );
+    });
+  });
+}
+
+// The zone date-fns works in (read each time, since TZ can change at runtime)
+function serverTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsersByEmail(email: string): Promise<User[]>;
+  // Missing ids are left out
+  getUsersByIds(ids: number[]): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  // Atomically counts one more failed login for the user
+  recordFailedLogin(id: number): Promise<User | undefined>;
+  
+  // Login lockout history
+  createLoginLockEvent(event: InsertLoginLockEvent): Promise<LoginLockEvent>;
+  
+  // Audit log (newest first)
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  listAuditLog(options: AuditLogListOptions): Promise<{ items: AuditLogEntry[]; total: number }>;
+  
+  // Activity feed (newest first; "before" is an activity id to page from)
+  createActivity(activity: InsertActivity): Promise<Activity>;
+  listActivities(options: { before?: number; limit: number }): Promise<Activity[]>;
+  deleteActivitiesFor(entityType: string, entityId: number): Promise<void>;
+
+  // Statistics
+  countRecords(entity: CountableEntity, range?: DateRange): Promise<number>;
+  // Only periods with at least one record are returned
+  countRecordsByPeriod(entity: CountableEntity, bucket: AnalyticsBucket, range?: DateRange): Promise<PeriodCount[]>;
+  countRecordsByGroup(entity: GroupableEntity, range?: DateRange): Promise<GroupCount[]>;
+  
+  // Two-factor credentials (one per user)
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  // Replaces any credential the user already had
+  saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential>;
+  updateTwoFactorCredential(userId: number, credential: Partial<InsertTwoFactorCredential>): Promise<TwoFactorCredential | undefined>;
+  deleteTwoFactorCredential(userId: number): Promise<boolean>;
+  
+  // Password reset tokens
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  // Marks the token used if it is still unused and unexpired, returning it
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
   
   // Event operations
   getEvent(id: number): Promise<Event | undefined>;
@@ -46,6 +191,33 @@ export interface IStorage {
   updateForumReply(id: number, reply: Partial<InsertForumReply>): Promise<ForumReply | undefined>;
   deleteForumReply(id: number): Promise<boolean>;
   getForumRepliesByTopic(topicId: number): Promise<ForumReply[]>;
+  // Only topics with at least one counted reply are included; hidden replies
+  // count only with includeHidden
+  getForumReplyStats(options: { includeHidden: boolean }): Promise<ForumReplyStats[]>;
+
+  // Reaction operations; adding one twice or removing a missing one changes nothing
+  getForumReactions(entityType: string, entityIds: number[]): Promise<ForumReaction[]>;
+  addForumReaction(reaction: InsertForumReaction): Promise<void>;
+  removeForumReaction(reaction: InsertForumReaction): Promise<void>;
+  deleteForumReactionsFor(entityType: string, entityId: number): Promise<void>;
+
+  // Prayer request operations; lists are newest first
+  getPrayerRequest(id: number): Promise<PrayerRequest | undefined>;
+  createPrayerRequest(request: InsertPrayerRequest): Promise<PrayerRequest>;
+  updatePrayerRequest(id: number, request: Partial<InsertPrayerRequest>): Promise<PrayerRequest | undefined>;
+  // Also removes its intercessions
+  deletePrayerRequest(id: number): Promise<boolean>;
+  listPrayerRequests(filter: PrayerRequestFilter): Promise<PrayerRequest[]>;
+  getPrayerIntercessions(requestIds: number[]): Promise<PrayerIntercession[]>;
+  // Praying for the same request again changes nothing
+  addPrayerIntercession(intercession: InsertPrayerIntercession): Promise<void>;
+
+  // Content report operations, newest first
+  getContentReport(id: number): Promise<ContentReport | undefined>;
+  createContentReport(report: InsertContentReport): Promise<ContentReport>;
+  listContentReports(filter: ContentReportFilter): Promise<ContentReport[]>;
+  // Closes every open report on the entity and returns them
+  closeContentReports(entityType: string, entityId: number, changes: Partial<InsertContentReport>): Promise<ContentReport[]>;
   
   // Site settings operations
   getSiteSetting(key: string): Promise<SiteSetting | undefined>;
@@ -53,8 +225,18 @@ export interface IStorage {
   updateSiteSetting(id: number, setting: Partial<InsertSiteSetting>): Promise<SiteSetting | undefined>;
   getAllSiteSettings(): Promise<SiteSetting[]>;
   
+  // Media operations
+  getMedia(id: number): Promise<Media | undefined>;
+  getMediaByUrl(url: string): Promise<Media | undefined>;
+  createMedia(media: InsertMedia): Promise<Media>;
+  updateMedia(id: number, media: Partial<InsertMedia>): Promise<Media | undefined>;
+  deleteMedia(id: number): Promise<boolean>;
+  listMedia(options: MediaListOptions): Promise<{ items: Media[]; total: number }>;
+  
   // Session store
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
+  // Unexpired sessions logged in as the user
+  getUserSessions(userId: number): Promise<StoredSession[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -65,6 +247,16 @@ export class MemStorage implements IStorage {
   private forumTopicsData: Map<number, ForumTopic>;
   private forumRepliesData: Map<number, ForumReply>;
   private siteSettingsData: Map<number, SiteSetting>;
+  private mediaData: Map<number, Media>;
+  private passwordResetTokensData: Map<number, PasswordResetToken>;
+  private loginLockEventsData: Map<number, LoginLockEvent>;
+  private twoFactorCredentialsData: Map<number, TwoFactorCredential>; // keyed by user id
+  private auditLogData: Map<number, AuditLogEntry>;
+  private activitiesData: Map<number, Activity>;
+  private contentReportsData: Map<number, ContentReport>;
+  private forumReactionsData: Map<number, ForumReaction>;
+  private prayerRequestsData: Map<number, PrayerRequest>;
+  private prayerIntercessionsData: Map<number, PrayerIntercession>;
   
   private userIdCounter: number;
   private eventIdCounter: number;
@@ -73,8 +265,18 @@ export class MemStorage implements IStorage {
   private forumTopicIdCounter: number;
   private forumReplyIdCounter: number;
   private siteSettingIdCounter: number;
+  private mediaIdCounter: number;
+  private passwordResetTokenIdCounter: number;
+  private loginLockEventIdCounter: number;
+  private twoFactorCredentialIdCounter: number;
+  private auditLogIdCounter: number;
+  private activityIdCounter: number;
+  private contentReportIdCounter: number;
+  private forumReactionIdCounter: number;
+  private prayerRequestIdCounter: number;
+  private prayerIntercessionIdCounter: number;
   
-  public sessionStore: session.SessionStore;
+  public sessionStore: session.Store;
 
   constructor() {
     this.usersData = new Map();
@@ -84,6 +286,16 @@ export class MemStorage implements IStorage {
     this.forumTopicsData = new Map();
     this.forumRepliesData = new Map();
     this.siteSettingsData = new Map();
+    this.mediaData = new Map();
+    this.passwordResetTokensData = new Map();
+    this.loginLockEventsData = new Map();
+    this.twoFactorCredentialsData = new Map();
+    this.auditLogData = new Map();
+    this.activitiesData = new Map();
+    this.contentReportsData = new Map();
+    this.forumReactionsData = new Map();
+    this.prayerRequestsData = new Map();
+    this.prayerIntercessionsData = new Map();
     
     this.userIdCounter = 1;
     this.eventIdCounter = 1;
@@ -92,12 +304,26 @@ export class MemStorage implements IStorage {
     this.forumTopicIdCounter = 1;
     this.forumReplyIdCounter = 1;
     this.siteSettingIdCounter = 1;
+    this.mediaIdCounter = 1;
+    this.passwordResetTokenIdCounter = 1;
+    this.loginLockEventIdCounter = 1;
+    this.twoFactorCredentialIdCounter = 1;
+    this.auditLogIdCounter = 1;
+    this.activityIdCounter = 1;
+    this.contentReportIdCounter = 1;
+    this.forumReactionIdCounter = 1;
+    this.prayerRequestIdCounter = 1;
+    this.prayerIntercessionIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24 hours
     });
   }
 
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    return listStoreSessions(this.sessionStore, userId);
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.usersData.get(id);
@@ -112,7 +338,21 @@ export class MemStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const now = new Date();
-    const user: User = { ...insertUser, id, createdAt: now };
+    const user: User = {
+      role: "member",
+      avatarUrl: null,
+      sessionVersion: 0,
+      status: "approved",
+      reviewedBy: null,
+      reviewedAt: null,
+      rejectionReason: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      twoFactorEnabled: false,
+      ...insertUser,
+      id,
+      createdAt: now,
+    };
     this.usersData.set(id, user);
     return user;
   }
@@ -126,10 +366,230 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return Array.from(this.usersData.values()).filter(
+      (user) => user.email.toLowerCase() === email.toLowerCase(),
+    );
+  }
+  
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    const wanted = new Set(ids);
+    return Array.from(this.usersData.values()).filter((user) => wanted.has(user.id));
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.usersData.values());
   }
 
+  async recordFailedLogin(id: number): Promise<User | undefined> {
+    const existingUser = this.usersData.get(id);
+    if (!existingUser) return undefined;
+
+    const updatedUser = { ...existingUser, failedLoginAttempts: existingUser.failedLoginAttempts + 1 };
+    this.usersData.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  // Login lock event methods
+  async createLoginLockEvent(eventData: InsertLoginLockEvent): Promise<LoginLockEvent> {
+    const id = this.loginLockEventIdCounter++;
+    const now = new Date();
+    const event: LoginLockEvent = {
+      userId: null,
+      username: null,
+      ipAddress: null,
+      failedAttempts: null,
+      lockedUntil: null,
+      actorId: null,
+      ...eventData,
+      id,
+      createdAt: now,
+    };
+    this.loginLockEventsData.set(id, event);
+    return event;
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entryData: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.auditLogIdCounter++;
+    const now = new Date();
+    const entry: AuditLogEntry = {
+      actorId: null,
+      entityId: null,
+      entityLabel: null,
+      changes: {},
+      ipAddress: null,
+      ...entryData,
+      id,
+      createdAt: now,
+    };
+    this.auditLogData.set(id, entry);
+    return entry;
+  }
+
+  async listAuditLog({ actorId, action, entityType, entityId, from, to, limit, offset }: AuditLogListOptions): Promise<{ items: AuditLogEntry[]; total: number }> {
+    const matches = Array.from(this.auditLogData.values())
+      .filter(entry => actorId === undefined || entry.actorId === actorId)
+      .filter(entry => !action || entry.action === action)
+      .filter(entry => !entityType || entry.entityType === entityType)
+      .filter(entry => entityId === undefined || entry.entityId === entityId)
+      .filter(entry => !from || entry.createdAt! >= from)
+      .filter(entry => !to || entry.createdAt! <= to)
+      .sort((a, b) => b.id - a.id);
+
+    return { items: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  // Activity feed methods
+  async createActivity(activityData: InsertActivity): Promise<Activity> {
+    const id = this.activityIdCounter++;
+    const activity: Activity = { ...activityData, id, createdAt: new Date() };
+    this.activitiesData.set(id, activity);
+    return activity;
+  }
+
+  async listActivities({ before, limit }: { before?: number; limit: number }): Promise<Activity[]> {
+    return Array.from(this.activitiesData.values())
+      .filter(activity => before === undefined || activity.id < before)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async deleteActivitiesFor(entityType: string, entityId: number): Promise<void> {
+    for (const [id, activity] of Array.from(this.activitiesData.entries())) {
+      if (activity.entityType === entityType && activity.entityId === entityId) {
+        this.activitiesData.delete(id);
+      }
+    }
+  }
+
+  // Statistics methods
+  private recordDates(entity: CountableEntity): (Date | null)[] {
+    switch (entity) {
+      case "members":
+        return Array.from(this.usersData.values())
+          .filter(user => user.status === "approved")
+          .map(user => user.createdAt);
+      case "events":
+        return Array.from(this.eventsData.values()).map(event => new Date(event.startTime));
+      case "studies":
+        return Array.from(this.studiesData.values()).map(study => study.createdAt);
+      case "posts":
+        return Array.from(this.postsData.values())
+          .filter(post => post.isPublished)
+          .map(post => post.createdAt);
+      case "forumTopics":
+        return Array.from(this.forumTopicsData.values()).map(topic => topic.createdAt);
+      case "forumReplies":
+        return Array.from(this.forumRepliesData.values()).map(reply => reply.createdAt);
+    }
+  }
+
+  private inRange(date: Date | null, { from, to }: DateRange) {
+    return (!from || (date !== null && date >= from)) && (!to || (date !== null && date < to));
+  }
+
+  async countRecords(entity: CountableEntity, range: DateRange = {}): Promise<number> {
+    return this.recordDates(entity).filter(date => this.inRange(date, range)).length;
+  }
+
+  async countRecordsByPeriod(entity: CountableEntity, bucket: AnalyticsBucket, range: DateRange = {}): Promise<PeriodCount[]> {
+    const startOf = {
+      day: startOfDay,
+      week: (date: Date) => startOfWeek(date, { weekStartsOn: 1 }),
+      month: startOfMonth,
+    }[bucket];
+
+    const counts = new Map<number, number>();
+    for (const date of this.recordDates(entity)) {
+      if (date === null || !this.inRange(date, range)) continue;
+      const period = startOf(date).getTime();
+      counts.set(period, (counts.get(period) ?? 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([period, count]) => ({ period: new Date(period), count }));
+  }
+
+  async countRecordsByGroup(entity: GroupableEntity, range: DateRange = {}): Promise<GroupCount[]> {
+    const records = entity === "events"
+      ? Array.from(this.eventsData.values()).map(event => ({ group: event.eventType, date: new Date(event.startTime) }))
+      : Array.from(this.studiesData.values()).map(study => ({ group: study.category, date: study.createdAt }));
+
+    const counts = new Map<string, number>();
+    for (const { group, date } of records) {
+      if (this.inRange(date, range)) counts.set(group, (counts.get(group) ?? 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .map(([group, count]) => ({ group, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  // Two-factor credential methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentialsData.get(userId);
+  }
+
+  async saveTwoFactorCredential(credentialData: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const id = this.twoFactorCredentialIdCounter++;
+    const now = new Date();
+    const credential: TwoFactorCredential = {
+      recoveryCodeHashes: [],
+      lastUsedStep: null,
+      confirmedAt: null,
+      ...credentialData,
+      id,
+      createdAt: now,
+    };
+    this.twoFactorCredentialsData.set(credential.userId, credential);
+    return credential;
+  }
+
+  async updateTwoFactorCredential(userId: number, credentialData: Partial<InsertTwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const existingCredential = this.twoFactorCredentialsData.get(userId);
+    if (!existingCredential) return undefined;
+
+    const updatedCredential = { ...existingCredential, ...credentialData };
+    this.twoFactorCredentialsData.set(userId, updatedCredential);
+    return updatedCredential;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    return this.twoFactorCredentialsData.delete(userId);
+  }
+
+  // Password reset token methods
+  async createPasswordResetToken(tokenData: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenIdCounter++;
+    const now = new Date();
+    const token: PasswordResetToken = { usedAt: null, ...tokenData, id, createdAt: now };
+    this.passwordResetTokensData.set(id, token);
+    return token;
+  }
+  
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const token = Array.from(this.passwordResetTokensData.values()).find(
+      (token) => token.tokenHash === tokenHash && !token.usedAt && token.expiresAt > now,
+    );
+    if (!token) return undefined;
+    
+    const usedToken = { ...token, usedAt: now };
+    this.passwordResetTokensData.set(token.id, usedToken);
+    return usedToken;
+  }
+  
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    const now = new Date();
+    this.passwordResetTokensData.forEach((token, id) => {
+      if (token.userId === userId && !token.usedAt) {
+        this.passwordResetTokensData.set(id, { ...token, usedAt: now });
+      }
+    });
+  }
+
   // Event methods
   async getEvent(id: number): Promise<Event | undefined> {
     return this.eventsData.get(id);
@@ -138,7 +598,7 @@ export class MemStorage implements IStorage {
   async createEvent(eventData: InsertEvent): Promise<Event> {
     const id = this.eventIdCounter++;
     const now = new Date();
-    const event: Event = { ...eventData, id, createdAt: now };
+    const event: Event = { description: null, ...eventData, id, createdAt: now };
     this.eventsData.set(id, event);
     return event;
   }
@@ -176,7 +636,7 @@ export class MemStorage implements IStorage {
   async createStudy(studyData: InsertStudy): Promise<Study> {
     const id = this.studyIdCounter++;
     const now = new Date();
-    const study: Study = { ...studyData, id, createdAt: now };
+    const study: Study = { fileUrl: null, ...studyData, id, createdAt: now };
     this.studiesData.set(id, study);
     return study;
   }
@@ -206,7 +666,7 @@ export class MemStorage implements IStorage {
   async createPost(postData: InsertPost): Promise<Post> {
     const id = this.postIdCounter++;
     const now = new Date();
-    const post: Post = { ...postData, id, createdAt: now };
+    const post: Post = { imageUrl: null, isPublished: true, ...postData, id, createdAt: now };
     this.postsData.set(id, post);
     return post;
   }
@@ -236,7 +696,16 @@ export class MemStorage implements IStorage {
   async createForumTopic(topicData: InsertForumTopic): Promise<ForumTopic> {
     const id = this.forumTopicIdCounter++;
     const now = new Date();
-    const topic: ForumTopic = { ...topicData, id, createdAt: now };
+    const topic: ForumTopic = {
+      ...topicData,
+      isPinned: topicData.isPinned ?? false,
+      isLocked: topicData.isLocked ?? false,
+      hiddenAt: topicData.hiddenAt ?? null,
+      hiddenBy: topicData.hiddenBy ?? null,
+      hiddenReason: topicData.hiddenReason ?? null,
+      id,
+      createdAt: now,
+    };
     this.forumTopicsData.set(id, topic);
     return topic;
   }
@@ -265,7 +734,17 @@ export class MemStorage implements IStorage {
   async createForumReply(replyData: InsertForumReply): Promise<ForumReply> {
     const id = this.forumReplyIdCounter++;
     const now = new Date();
-    const reply: ForumReply = { ...replyData, id, createdAt: now };
+    const reply: ForumReply = {
+      ...replyData,
+      parentReplyId: replyData.parentReplyId ?? null,
+      quotedReplyId: replyData.quotedReplyId ?? null,
+      quotedText: replyData.quotedText ?? null,
+      hiddenAt: replyData.hiddenAt ?? null,
+      hiddenBy: replyData.hiddenBy ?? null,
+      hiddenReason: replyData.hiddenReason ?? null,
+      id,
+      createdAt: now,
+    };
     this.forumRepliesData.set(id, reply);
     return reply;
   }
@@ -288,6 +767,151 @@ export class MemStorage implements IStorage {
       .filter(reply => reply.topicId === topicId);
   }
 
+  async getForumReplyStats({ includeHidden }: { includeHidden: boolean }): Promise<ForumReplyStats[]> {
+    const stats = new Map<number, ForumReplyStats>();
+    // Replies are kept in id order, so the last one seen per topic is the latest
+    for (const reply of Array.from(this.forumRepliesData.values())) {
+      if (reply.hiddenAt && !includeHidden) continue;
+      const current = stats.get(reply.topicId);
+      stats.set(reply.topicId, {
+        topicId: reply.topicId,
+        replyCount: (current?.replyCount ?? 0) + 1,
+        lastReplyAt: reply.createdAt,
+        lastReplyAuthorId: reply.authorId,
+      });
+    }
+    return Array.from(stats.values());
+  }
+
+  // Reaction methods
+  private findForumReaction({ entityType, entityId, userId, kind }: InsertForumReaction) {
+    return Array.from(this.forumReactionsData.values()).find(reaction =>
+      reaction.entityType === entityType && reaction.entityId === entityId &&
+      reaction.userId === userId && reaction.kind === kind);
+  }
+
+  async getForumReactions(entityType: string, entityIds: number[]): Promise<ForumReaction[]> {
+    const ids = new Set(entityIds);
+    return Array.from(this.forumReactionsData.values())
+      .filter(reaction => reaction.entityType === entityType && ids.has(reaction.entityId));
+  }
+
+  async addForumReaction(reactionData: InsertForumReaction): Promise<void> {
+    if (this.findForumReaction(reactionData)) return;
+    const id = this.forumReactionIdCounter++;
+    this.forumReactionsData.set(id, { ...reactionData, id, createdAt: new Date() });
+  }
+
+  async removeForumReaction(reactionData: InsertForumReaction): Promise<void> {
+    const existing = this.findForumReaction(reactionData);
+    if (existing) this.forumReactionsData.delete(existing.id);
+  }
+
+  async deleteForumReactionsFor(entityType: string, entityId: number): Promise<void> {
+    for (const [id, reaction] of Array.from(this.forumReactionsData.entries())) {
+      if (reaction.entityType === entityType && reaction.entityId === entityId) {
+        this.forumReactionsData.delete(id);
+      }
+    }
+  }
+
+  // Prayer request methods
+  async getPrayerRequest(id: number): Promise<PrayerRequest | undefined> {
+    return this.prayerRequestsData.get(id);
+  }
+
+  async createPrayerRequest(requestData: InsertPrayerRequest): Promise<PrayerRequest> {
+    const id = this.prayerRequestIdCounter++;
+    const request: PrayerRequest = {
+      ...requestData,
+      visibility: requestData.visibility ?? "members",
+      status: requestData.status ?? "open",
+      testimony: requestData.testimony ?? null,
+      answeredAt: requestData.answeredAt ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.prayerRequestsData.set(id, request);
+    return request;
+  }
+
+  async updatePrayerRequest(id: number, requestData: Partial<InsertPrayerRequest>): Promise<PrayerRequest | undefined> {
+    const existingRequest = this.prayerRequestsData.get(id);
+    if (!existingRequest) return undefined;
+
+    const updatedRequest = { ...existingRequest, ...requestData };
+    this.prayerRequestsData.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
+  async deletePrayerRequest(id: number): Promise<boolean> {
+    for (const [intercessionId, intercession] of Array.from(this.prayerIntercessionsData.entries())) {
+      if (intercession.requestId === id) this.prayerIntercessionsData.delete(intercessionId);
+    }
+    return this.prayerRequestsData.delete(id);
+  }
+
+  async listPrayerRequests({ authorId, visibilities, activeAt }: PrayerRequestFilter): Promise<PrayerRequest[]> {
+    return Array.from(this.prayerRequestsData.values())
+      .filter(request => authorId === undefined || request.authorId === authorId)
+      .filter(request => !visibilities || visibilities.includes(request.visibility))
+      .filter(request => !activeAt || request.expiresAt > activeAt)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPrayerIntercessions(requestIds: number[]): Promise<PrayerIntercession[]> {
+    const ids = new Set(requestIds);
+    return Array.from(this.prayerIntercessionsData.values()).filter(intercession => ids.has(intercession.requestId));
+  }
+
+  async addPrayerIntercession(intercessionData: InsertPrayerIntercession): Promise<void> {
+    const exists = Array.from(this.prayerIntercessionsData.values()).some(intercession =>
+      intercession.requestId === intercessionData.requestId && intercession.userId === intercessionData.userId);
+    if (exists) return;
+    const id = this.prayerIntercessionIdCounter++;
+    this.prayerIntercessionsData.set(id, { ...intercessionData, id, createdAt: new Date() });
+  }
+
+  // Content report methods
+  async getContentReport(id: number): Promise<ContentReport | undefined> {
+    return this.contentReportsData.get(id);
+  }
+
+  async createContentReport(reportData: InsertContentReport): Promise<ContentReport> {
+    const id = this.contentReportIdCounter++;
+    const report: ContentReport = {
+      ...reportData,
+      details: reportData.details ?? null,
+      status: reportData.status ?? "open",
+      resolution: reportData.resolution ?? null,
+      moderatorNote: reportData.moderatorNote ?? null,
+      resolvedBy: reportData.resolvedBy ?? null,
+      resolvedAt: reportData.resolvedAt ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.contentReportsData.set(id, report);
+    return report;
+  }
+
+  async listContentReports({ status, entityType, entityId, reporterId }: ContentReportFilter): Promise<ContentReport[]> {
+    return Array.from(this.contentReportsData.values())
+      .filter(report => !status || report.status === status)
+      .filter(report => !entityType || report.entityType === entityType)
+      .filter(report => entityId === undefined || report.entityId === entityId)
+      .filter(report => reporterId === undefined || report.reporterId === reporterId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async closeContentReports(entityType: string, entityId: number, changes: Partial<InsertContentReport>): Promise<ContentReport[]> {
+    const open = await this.listContentReports({ status: "open", entityType, entityId });
+    return open.map(report => {
+      const closed = { ...report, ...changes };
+      this.contentReportsData.set(report.id, closed);
+      return closed;
+    });
+  }
+
   // Site settings methods
   async getSiteSetting(key: string): Promise<SiteSetting | undefined> {
     return Array.from(this.siteSettingsData.values()).find(setting => setting.key === key);
@@ -314,6 +938,636 @@ export class MemStorage implements IStorage {
   async getAllSiteSettings(): Promise<SiteSetting[]> {
     return Array.from(this.siteSettingsData.values());
   }
+
+  // Media methods
+  async getMedia(id: number): Promise<Media | undefined> {
+    return this.mediaData.get(id);
+  }
+
+  async getMediaByUrl(url: string): Promise<Media | undefined> {
+    return Array.from(this.mediaData.values()).find(item => item.url === url);
+  }
+
+  async createMedia(mediaData: InsertMedia): Promise<Media> {
+    const id = this.mediaIdCounter++;
+    const now = new Date();
+    const item: Media = { width: null, height: null, altText: null, variants: [], ...mediaData, id, createdAt: now };
+    this.mediaData.set(id, item);
+    return item;
+  }
+  
+  async updateMedia(id: number, mediaData: Partial<InsertMedia>): Promise<Media | undefined> {
+    const existingMedia = this.mediaData.get(id);
+    if (!existingMedia) return undefined;
+    
+    const updatedMedia = { ...existingMedia, ...mediaData };
+    this.mediaData.set(id, updatedMedia);
+    return updatedMedia;
+  }
+  
+  async deleteMedia(id: number): Promise<boolean> {
+    return this.mediaData.delete(id);
+  }
+  
+  async listMedia({ search, type, limit, offset }: MediaListOptions): Promise<{ items: Media[]; total: number }> {
+    const term = search?.toLowerCase();
+    const matches = Array.from(this.mediaData.values())
+      .filter(item => !term
+        || item.fileName.toLowerCase().includes(term)
+        || (item.altText ?? "").toLowerCase().includes(term))
+      .filter(item => !type || (type === "image") === item.mimeType.startsWith("image/"))
+      .sort((a, b) => b.id - a.id);
+    
+    return { items: matches.slice(offset, offset + limit), total: matches.length };
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  public sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? new MemoryStore({
+      checkPeriod: 86400000 // 24 hours
+    });
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    if (!(this.sessionStore instanceof PostgresSessionStore)) {
+      return listStoreSessions(this.sessionStore, userId);
+    }
+
+    const rows = await this.db.select().from(sessionTable).where(and(
+      gt(sessionTable.expire, new Date()),
+      sql`coalesce(${sessionTable.sess}->'passport'->'user'->>'id', ${sessionTable.sess}->'passport'->>'user') = ${String(userId)}`,
+    ));
+    return rows.map(({ sid, sess }) => ({ sid, session: sess }));
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return this.db.select().from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+      .orderBy(asc(users.id));
+  }
+
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(users).where(inArray(users.id, Array.from(new Set(ids))));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async recordFailedLogin(id: number): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Login lock event methods
+  async createLoginLockEvent(eventData: InsertLoginLockEvent): Promise<LoginLockEvent> {
+    const [event] = await this.db.insert(loginLockEvents).values(eventData).returning();
+    return event;
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entryData: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [entry] = await this.db.insert(auditLog).values(entryData).returning();
+    return entry;
+  }
+
+  async listAuditLog({ actorId, action, entityType, entityId, from, to, limit, offset }: AuditLogListOptions): Promise<{ items: AuditLogEntry[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [];
+    if (actorId !== undefined) conditions.push(eq(auditLog.actorId, actorId));
+    if (action) conditions.push(eq(auditLog.action, action));
+    if (entityType) conditions.push(eq(auditLog.entityType, entityType));
+    if (entityId !== undefined) conditions.push(eq(auditLog.entityId, entityId));
+    if (from) conditions.push(gte(auditLog.createdAt, from));
+    if (to) conditions.push(lte(auditLog.createdAt, to));
+    const where = and(...conditions);
+
+    const items = await this.db.select().from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await this.db.select({ total: count() }).from(auditLog).where(where);
+
+    return { items, total };
+  }
+
+  // Activity feed methods
+  async createActivity(activityData: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db.insert(activities).values(activityData).returning();
+    return activity;
+  }
+
+  async listActivities({ before, limit }: { before?: number; limit: number }): Promise<Activity[]> {
+    return await this.db.select().from(activities)
+      .where(before !== undefined ? lt(activities.id, before) : undefined)
+      .orderBy(desc(activities.id))
+      .limit(limit);
+  }
+
+  async deleteActivitiesFor(entityType: string, entityId: number): Promise<void> {
+    await this.db.delete(activities)
+      .where(and(eq(activities.entityType, entityType), eq(activities.entityId, entityId)));
+  }
+
+  // Statistics methods
+  private countable(entity: CountableEntity) {
+    switch (entity) {
+      case "members":
+        return { table: users, date: users.createdAt, filter: eq(users.status, "approved") };
+      case "events":
+        return { table: events, date: events.startTime };
+      case "studies":
+        return { table: studies, date: studies.createdAt };
+      case "posts":
+        return { table: posts, date: posts.createdAt, filter: eq(posts.isPublished, true) };
+      case "forumTopics":
+        return { table: forumTopics, date: forumTopics.createdAt };
+      case "forumReplies":
+        return { table: forumReplies, date: forumReplies.createdAt };
+    }
+  }
+
+  async countRecords(entity: CountableEntity, { from, to }: DateRange = {}): Promise<number> {
+    const { table, date, filter } = this.countable(entity);
+    const [{ total }] = await this.db.select({ total: count() }).from(table)
+      .where(and(
+        filter,
+        from ? gte(date, from) : undefined,
+        to ? lt(date, to) : undefined,
+      ));
+    return total;
+  }
+
+  async countRecordsByPeriod(entity: CountableEntity, bucket: AnalyticsBucket, { from, to }: DateRange = {}): Promise<PeriodCount[]> {
+    const { table, date, filter } = this.countable(entity);
+    // Columns hold UTC wall time, but periods start at local midnight like
+    // periodsBetween expects, so truncate in the server's time zone and convert
+    // back. Postgres weeks start on Monday, as startOfWeek is set up there.
+    const zone = sql.raw(`'${serverTimeZone().replace(/'/g, "''")}'`);
+    const local = sql`${date} at time zone 'UTC' at time zone ${zone}`;
+    const period = sql`date_trunc(${sql.raw(`'${bucket}'`)}, ${local}) at time zone ${zone} at time zone 'UTC'`.mapWith(date);
+
+    return await this.db.select({ period, count: count() }).from(table)
+      .where(and(
+        filter,
+        from ? gte(date, from) : undefined,
+        to ? lt(date, to) : undefined,
+      ))
+      .groupBy(period)
+      .orderBy(period);
+  }
+
+  async countRecordsByGroup(entity: GroupableEntity, { from, to }: DateRange = {}): Promise<GroupCount[]> {
+    const { table, date, group } = entity === "events"
+      ? { table: events, date: events.startTime, group: events.eventType }
+      : { table: studies, date: studies.createdAt, group: studies.category };
+
+    return await this.db.select({ group, count: count() }).from(table)
+      .where(and(
+        from ? gte(date, from) : undefined,
+        to ? lt(date, to) : undefined,
+      ))
+      .groupBy(group)
+      .orderBy(desc(count()));
+  }
+
+  // Two-factor credential methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await this.db.select().from(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  async saveTwoFactorCredential(credentialData: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const [credential] = await this.db.insert(twoFactorCredentials)
+      .values(credentialData)
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: {
+          secret: credentialData.secret,
+          recoveryCodeHashes: credentialData.recoveryCodeHashes ?? [],
+          lastUsedStep: credentialData.lastUsedStep ?? null,
+          confirmedAt: credentialData.confirmedAt ?? null,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return credential;
+  }
+
+  async updateTwoFactorCredential(userId: number, credentialData: Partial<InsertTwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await this.db.update(twoFactorCredentials)
+      .set(credentialData)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return credential;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning({ id: twoFactorCredentials.id });
+    return deleted.length > 0;
+  }
+
+  // Password reset token methods
+  async createPasswordResetToken(tokenData: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await this.db.insert(passwordResetTokens).values(tokenData).returning();
+    return token;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const now = new Date();
+    const [token] = await this.db.update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now),
+      ))
+      .returning();
+    return token;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await this.db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // Event methods
+  async getEvent(id: number): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  async createEvent(eventData: InsertEvent): Promise<Event> {
+    const [event] = await this.db.insert(events).values(eventData).returning();
+    return event;
+  }
+
+  async updateEvent(id: number, eventData: Partial<InsertEvent>): Promise<Event | undefined> {
+    const [event] = await this.db.update(events).set(eventData).where(eq(events.id, id)).returning();
+    return event;
+  }
+
+  async deleteEvent(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(events).where(eq(events.id, id)).returning({ id: events.id });
+    return deleted.length > 0;
+  }
+
+  async getAllEvents(): Promise<Event[]> {
+    return this.db.select().from(events).orderBy(asc(events.id));
+  }
+
+  async getUpcomingEvents(count: number = 5): Promise<Event[]> {
+    return this.db.select().from(events)
+      .where(gt(events.startTime, new Date()))
+      .orderBy(asc(events.startTime))
+      .limit(count);
+  }
+
+  // Study methods
+  async getStudy(id: number): Promise<Study | undefined> {
+    const [study] = await this.db.select().from(studies).where(eq(studies.id, id));
+    return study;
+  }
+
+  async createStudy(studyData: InsertStudy): Promise<Study> {
+    const [study] = await this.db.insert(studies).values(studyData).returning();
+    return study;
+  }
+
+  async updateStudy(id: number, studyData: Partial<InsertStudy>): Promise<Study | undefined> {
+    const [study] = await this.db.update(studies).set(studyData).where(eq(studies.id, id)).returning();
+    return study;
+  }
+
+  async deleteStudy(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(studies).where(eq(studies.id, id)).returning({ id: studies.id });
+    return deleted.length > 0;
+  }
+
+  async getAllStudies(): Promise<Study[]> {
+    return this.db.select().from(studies).orderBy(asc(studies.id));
+  }
+
+  // Post methods
+  async getPost(id: number): Promise<Post | undefined> {
+    const [post] = await this.db.select().from(posts).where(eq(posts.id, id));
+    return post;
+  }
+
+  async createPost(postData: InsertPost): Promise<Post> {
+    const [post] = await this.db.insert(posts).values(postData).returning();
+    return post;
+  }
+
+  async updatePost(id: number, postData: Partial<InsertPost>): Promise<Post | undefined> {
+    const [post] = await this.db.update(posts).set(postData).where(eq(posts.id, id)).returning();
+    return post;
+  }
+
+  async deletePost(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(posts).where(eq(posts.id, id)).returning({ id: posts.id });
+    return deleted.length > 0;
+  }
+
+  async getAllPosts(): Promise<Post[]> {
+    return this.db.select().from(posts).orderBy(asc(posts.id));
+  }
+
+  // Forum methods
+  async getForumTopic(id: number): Promise<ForumTopic | undefined> {
+    const [topic] = await this.db.select().from(forumTopics).where(eq(forumTopics.id, id));
+    return topic;
+  }
+
+  async createForumTopic(topicData: InsertForumTopic): Promise<ForumTopic> {
+    const [topic] = await this.db.insert(forumTopics).values(topicData).returning();
+    return topic;
+  }
+
+  async updateForumTopic(id: number, topicData: Partial<InsertForumTopic>): Promise<ForumTopic | undefined> {
+    const [topic] = await this.db.update(forumTopics).set(topicData).where(eq(forumTopics.id, id)).returning();
+    return topic;
+  }
+
+  async deleteForumTopic(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(forumTopics).where(eq(forumTopics.id, id)).returning({ id: forumTopics.id });
+    return deleted.length > 0;
+  }
+
+  async getAllForumTopics(): Promise<ForumTopic[]> {
+    return this.db.select().from(forumTopics).orderBy(asc(forumTopics.id));
+  }
+
+  async getForumReply(id: number): Promise<ForumReply | undefined> {
+    const [reply] = await this.db.select().from(forumReplies).where(eq(forumReplies.id, id));
+    return reply;
+  }
+
+  async createForumReply(replyData: InsertForumReply): Promise<ForumReply> {
+    const [reply] = await this.db.insert(forumReplies).values(replyData).returning();
+    return reply;
+  }
+
+  async updateForumReply(id: number, replyData: Partial<InsertForumReply>): Promise<ForumReply | undefined> {
+    const [reply] = await this.db.update(forumReplies).set(replyData).where(eq(forumReplies.id, id)).returning();
+    return reply;
+  }
+
+  async deleteForumReply(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(forumReplies).where(eq(forumReplies.id, id)).returning({ id: forumReplies.id });
+    return deleted.length > 0;
+  }
+
+  async getForumRepliesByTopic(topicId: number): Promise<ForumReply[]> {
+    return this.db.select().from(forumReplies)
+      .where(eq(forumReplies.topicId, topicId))
+      .orderBy(asc(forumReplies.id));
+  }
+
+  async getForumReplyStats({ includeHidden }: { includeHidden: boolean }): Promise<ForumReplyStats[]> {
+    const visible = includeHidden ? undefined : isNull(forumReplies.hiddenAt);
+    const counts = await this.db.select({ topicId: forumReplies.topicId, replyCount: count() })
+      .from(forumReplies)
+      .where(visible)
+      .groupBy(forumReplies.topicId);
+    const latest = await this.db.selectDistinctOn([forumReplies.topicId], {
+      topicId: forumReplies.topicId,
+      lastReplyAt: forumReplies.createdAt,
+      lastReplyAuthorId: forumReplies.authorId,
+    })
+      .from(forumReplies)
+      .where(visible)
+      .orderBy(forumReplies.topicId, desc(forumReplies.id));
+
+    const latestByTopic = new Map(latest.map(reply => [reply.topicId, reply]));
+    return counts.map(({ topicId, replyCount }) => ({
+      topicId,
+      replyCount,
+      lastReplyAt: latestByTopic.get(topicId)!.lastReplyAt,
+      lastReplyAuthorId: latestByTopic.get(topicId)!.lastReplyAuthorId,
+    }));
+  }
+
+  // Reaction methods
+  async getForumReactions(entityType: string, entityIds: number[]): Promise<ForumReaction[]> {
+    if (entityIds.length === 0) return [];
+    return this.db.select().from(forumReactions)
+      .where(and(eq(forumReactions.entityType, entityType), inArray(forumReactions.entityId, entityIds)))
+      .orderBy(asc(forumReactions.id));
+  }
+
+  async addForumReaction(reactionData: InsertForumReaction): Promise<void> {
+    await this.db.insert(forumReactions).values(reactionData).onConflictDoNothing();
+  }
+
+  async removeForumReaction({ entityType, entityId, userId, kind }: InsertForumReaction): Promise<void> {
+    await this.db.delete(forumReactions).where(and(
+      eq(forumReactions.entityType, entityType),
+      eq(forumReactions.entityId, entityId),
+      eq(forumReactions.userId, userId),
+      eq(forumReactions.kind, kind),
+    ));
+  }
+
+  async deleteForumReactionsFor(entityType: string, entityId: number): Promise<void> {
+    await this.db.delete(forumReactions)
+      .where(and(eq(forumReactions.entityType, entityType), eq(forumReactions.entityId, entityId)));
+  }
+
+  // Prayer request methods
+  async getPrayerRequest(id: number): Promise<PrayerRequest | undefined> {
+    const [request] = await this.db.select().from(prayerRequests).where(eq(prayerRequests.id, id));
+    return request;
+  }
+
+  async createPrayerRequest(requestData: InsertPrayerRequest): Promise<PrayerRequest> {
+    const [request] = await this.db.insert(prayerRequests).values(requestData).returning();
+    return request;
+  }
+
+  async updatePrayerRequest(id: number, requestData: Partial<InsertPrayerRequest>): Promise<PrayerRequest | undefined> {
+    const [request] = await this.db.update(prayerRequests).set(requestData).where(eq(prayerRequests.id, id)).returning();
+    return request;
+  }
+
+  async deletePrayerRequest(id: number): Promise<boolean> {
+    await this.db.delete(prayerIntercessions).where(eq(prayerIntercessions.requestId, id));
+    const deleted = await this.db.delete(prayerRequests).where(eq(prayerRequests.id, id)).returning({ id: prayerRequests.id });
+    return deleted.length > 0;
+  }
+
+  async listPrayerRequests({ authorId, visibilities, activeAt }: PrayerRequestFilter): Promise<PrayerRequest[]> {
+    const conditions: SQL[] = [];
+    if (authorId !== undefined) conditions.push(eq(prayerRequests.authorId, authorId));
+    if (visibilities) conditions.push(inArray(prayerRequests.visibility, visibilities));
+    if (activeAt) conditions.push(gt(prayerRequests.expiresAt, activeAt));
+
+    return this.db.select().from(prayerRequests)
+      .where(and(...conditions))
+      .orderBy(desc(prayerRequests.id));
+  }
+
+  async getPrayerIntercessions(requestIds: number[]): Promise<PrayerIntercession[]> {
+    if (requestIds.length === 0) return [];
+    return this.db.select().from(prayerIntercessions).where(inArray(prayerIntercessions.requestId, requestIds));
+  }
+
+  async addPrayerIntercession(intercessionData: InsertPrayerIntercession): Promise<void> {
+    await this.db.insert(prayerIntercessions).values(intercessionData).onConflictDoNothing();
+  }
+
+  // Content report methods
+  async getContentReport(id: number): Promise<ContentReport | undefined> {
+    const [report] = await this.db.select().from(contentReports).where(eq(contentReports.id, id));
+    return report;
+  }
+
+  async createContentReport(reportData: InsertContentReport): Promise<ContentReport> {
+    const [report] = await this.db.insert(contentReports).values(reportData).returning();
+    return report;
+  }
+
+  async listContentReports({ status, entityType, entityId, reporterId }: ContentReportFilter): Promise<ContentReport[]> {
+    const conditions: SQL[] = [];
+    if (status) conditions.push(eq(contentReports.status, status));
+    if (entityType) conditions.push(eq(contentReports.entityType, entityType));
+    if (entityId !== undefined) conditions.push(eq(contentReports.entityId, entityId));
+    if (reporterId !== undefined) conditions.push(eq(contentReports.reporterId, reporterId));
+
+    return this.db.select().from(contentReports)
+      .where(and(...conditions))
+      .orderBy(desc(contentReports.id));
+  }
+
+  async closeContentReports(entityType: string, entityId: number, changes: Partial<InsertContentReport>): Promise<ContentReport[]> {
+    return this.db.update(contentReports)
+      .set(changes)
+      .where(and(
+        eq(contentReports.entityType, entityType),
+        eq(contentReports.entityId, entityId),
+        eq(contentReports.status, "open"),
+      ))
+      .returning();
+  }
+
+  // Site settings methods
+  async getSiteSetting(key: string): Promise<SiteSetting | undefined> {
+    const [setting] = await this.db.select().from(siteSettings).where(eq(siteSettings.key, key));
+    return setting;
+  }
+
+  async createSiteSetting(settingData: InsertSiteSetting): Promise<SiteSetting> {
+    const [setting] = await this.db.insert(siteSettings).values(settingData).returning();
+    return setting;
+  }
+
+  async updateSiteSetting(id: number, settingData: Partial<InsertSiteSetting>): Promise<SiteSetting | undefined> {
+    const [setting] = await this.db.update(siteSettings)
+      .set({ ...settingData, updatedAt: new Date() })
+      .where(eq(siteSettings.id, id))
+      .returning();
+    return setting;
+  }
+
+  async getAllSiteSettings(): Promise<SiteSetting[]> {
+    return this.db.select().from(siteSettings).orderBy(asc(siteSettings.id));
+  }
+
+  // Media methods
+  async getMedia(id: number): Promise<Media | undefined> {
+    const [item] = await this.db.select().from(media).where(eq(media.id, id));
+    return item;
+  }
+
+  async getMediaByUrl(url: string): Promise<Media | undefined> {
+    const [item] = await this.db.select().from(media).where(eq(media.url, url));
+    return item;
+  }
+
+  async createMedia(mediaData: InsertMedia): Promise<Media> {
+    const [item] = await this.db.insert(media).values(mediaData).returning();
+    return item;
+  }
+
+  async updateMedia(id: number, mediaData: Partial<InsertMedia>): Promise<Media | undefined> {
+    const [item] = await this.db.update(media).set(mediaData).where(eq(media.id, id)).returning();
+    return item;
+  }
+
+  async deleteMedia(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(media).where(eq(media.id, id)).returning({ id: media.id });
+    return deleted.length > 0;
+  }
+
+  async listMedia({ search, type, limit, offset }: MediaListOptions): Promise<{ items: Media[]; total: number }> {
+    const conditions: (SQL | undefined)[] = [];
+    if (search) {
+      conditions.push(or(ilike(media.fileName, `%${search}%`), ilike(media.altText, `%${search}%`)));
+    }
+    if (type === "image") conditions.push(like(media.mimeType, "image/%"));
+    if (type === "document") conditions.push(notLike(media.mimeType, "image/%"));
+    const where = and(...conditions);
+
+    const items = await this.db.select().from(media)
+      .where(where)
+      .orderBy(desc(media.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await this.db.select({ total: count() }).from(media).where(where);
+
+    return { items, total };
+  }
+}
+
+// STORAGE_DRIVER=database|memory; defaults to the database whenever DATABASE_URL is set.
+// MemStorage stays available for tests and quick local runs.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "database" : "memory");
+
+  if (driver === "database") {
+    const { pool, db } = connectDatabase();
+    // Sessions live in the "session" table so logins survive restarts and deploys
+    const sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+      pruneSessionInterval: 60 * 15 // seconds
+    });
+    return new DatabaseStorage(db, sessionStore);
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
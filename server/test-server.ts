@@ -0,0 +1,85 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { InsertUser } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+
+// Helpers for route tests. Without DATABASE_URL the routes run on the
+// in-memory storage; each test file gets its own process, so its own data.
+
+export const testPassword = "Senha12345!";
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+// Boots the API on a free local port
+export async function startTestServer() {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((err) => (err ? reject(err) : resolve()));
+    }),
+  };
+}
+
+// Keeps the session cookie between requests, like a browser tab
+export class TestClient {
+  private cookie?: string;
+
+  constructor(private baseUrl: string) {}
+
+  async request(method: string, path: string, body?: unknown): Promise<TestResponse> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (this.cookie) headers.Cookie = this.cookie;
+
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+
+    const isJson = res.headers.get("content-type")?.includes("application/json");
+    return { status: res.status, headers: res.headers, body: isJson ? await res.json() : await res.text() };
+  }
+
+  get(path: string) {
+    return this.request("GET", path);
+  }
+
+  post(path: string, body?: unknown) {
+    return this.request("POST", path, body ?? {});
+  }
+
+  patch(path: string, body: unknown) {
+    return this.request("PATCH", path, body);
+  }
+
+  login(username: string, password = testPassword) {
+    return this.post("/api/login", { username, password });
+  }
+}
+
+// An approved account with testPassword, unless the overrides say otherwise
+export async function createTestUser(username: string, overrides: Partial<InsertUser> = {}) {
+  return storage.createUser({
+    username,
+    password: await hashPassword(testPassword),
+    name: username,
+    email: `${username}@example.com`,
+    ...overrides,
+  });
+}
@@ -0,0 +1,84 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Secret, TOTP } from "otpauth";
+import { startTestServer, createTestUser, TestClient } from "./test-server";
+
+describe("two-factor login", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+
+  // Codes for the current step, or one ahead; a step is accepted only once
+  const codeFor = (secret: string, stepsAhead = 0) =>
+    new TOTP({ secret: Secret.fromBase32(secret) }).generate({ timestamp: Date.now() + stepsAhead * 30_000 });
+
+  // Turns 2FA on for a new account, returning its secret and recovery codes
+  const enroll = async (username: string) => {
+    await createTestUser(username, { role: "admin" });
+    const client = new TestClient(server.url);
+    await client.login(username);
+    const { secret } = (await client.post("/api/user/2fa/setup")).body;
+    assert.equal((await client.post("/api/user/2fa/enable", { code: "000000" })).status, 400);
+    const enabled = await client.post("/api/user/2fa/enable", { code: codeFor(secret) });
+    assert.equal(enabled.status, 200);
+    return { secret: secret as string, recoveryCodes: enabled.body.recoveryCodes as string[] };
+  };
+
+  // Password accepted, waiting for the second step
+  const startLogin = async (username: string) => {
+    const client = new TestClient(server.url);
+    const res = await client.login(username);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { twoFactorRequired: true });
+    return client;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("needs a pending login before taking a code", async () => {
+    const res = await new TestClient(server.url).post("/api/login/2fa", { code: "123456" });
+    assert.equal(res.status, 401);
+  });
+
+  it("logs in only after the authenticator code, which works once", async () => {
+    const { secret } = await enroll("admin");
+
+    const client = await startLogin("admin");
+    assert.equal((await client.get("/api/user")).status, 401);
+    assert.equal((await client.post("/api/login/2fa", { code: "abc" })).status, 400);
+    assert.equal((await client.post("/api/login/2fa", { code: "000000" })).status, 401);
+
+    const code = codeFor(secret, 1);
+    const res = await client.post("/api/login/2fa", { code });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.password, undefined);
+    assert.equal((await client.get("/api/user")).status, 200);
+
+    const replay = await startLogin("admin");
+    assert.equal((await replay.post("/api/login/2fa", { code })).status, 401);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { recoveryCodes: [recoveryCode] } = await enroll("pastor");
+
+    const client = await startLogin("pastor");
+    assert.equal((await client.post("/api/login/2fa", { recoveryCode: recoveryCode.toUpperCase() })).status, 200);
+
+    const again = await startLogin("pastor");
+    assert.equal((await again.post("/api/login/2fa", { recoveryCode })).status, 401);
+  });
+
+  it("counts wrong codes toward the account lockout", async () => {
+    const { secret } = await enroll("lider");
+
+    const client = await startLogin("lider");
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await client.post("/api/login/2fa", { code: "000000" })).status, 401);
+    }
+    assert.equal((await client.post("/api/login/2fa", { code: codeFor(secret, 1) })).status, 429);
+  });
+});
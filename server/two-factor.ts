@@ -0,0 +1,265 @@
+import type { Express, Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { Secret, TOTP } from "otpauth";
+import QRCode from "qrcode";
+import {
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  type TwoFactorCredential,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { comparePasswords } from "./auth";
+import { recordAudit } from "./audit";
+import { loginLockRemaining, recordLoginFailure, recordLoginSuccess, sendLoginLocked } from "./login-throttle";
+
+const issuer = process.env.TWO_FACTOR_ISSUER || "IBI Parnaíba";
+const requireAdminTwoFactor = process.env.REQUIRE_ADMIN_2FA === "true";
+const recoveryCodeCount = 10;
+const periodSeconds = 30;
+
+// Admins can be required to use 2FA before they reach anything else
+export function twoFactorRequiredFor(user: User) {
+  return requireAdminTwoFactor && user.role === "admin";
+}
+
+function totpFor(user: User, secret: string) {
+  return new TOTP({
+    issuer,
+    label: user.username,
+    algorithm: "SHA1",
+    digits: 6,
+    period: periodSeconds,
+    secret: Secret.fromBase32(secret),
+  });
+}
+
+// Accepts the current code (or one step either side, for clock drift) once
+async function acceptTotpCode(user: User, credential: TwoFactorCredential, code: string) {
+  const delta = totpFor(user, credential.secret).validate({ token: code, window: 1 });
+  if (delta === null) return false;
+
+  const step = Math.floor(Date.now() / 1000 / periodSeconds) + delta;
+  if (credential.lastUsedStep !== null && step <= credential.lastUsedStep) return false;
+
+  await storage.updateTwoFactorCredential(user.id, { lastUsedStep: step });
+  return true;
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Each recovery code works once
+async function acceptRecoveryCode(credential: TwoFactorCredential, code: string) {
+  const hash = hashRecoveryCode(code);
+  if (!credential.recoveryCodeHashes.includes(hash)) return false;
+
+  await storage.updateTwoFactorCredential(credential.userId, {
+    recoveryCodeHashes: credential.recoveryCodeHashes.filter((codeHash) => codeHash !== hash),
+  });
+  return true;
+}
+
+// Codes are shown once; only their hashes are stored
+async function issueRecoveryCodes(userId: number) {
+  const recoveryCodes = Array.from({ length: recoveryCodeCount }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  await storage.updateTwoFactorCredential(userId, {
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+  return recoveryCodes;
+}
+
+function invalidCodeResponse(field: "code" | "recoveryCode") {
+  return {
+    message: "Código inválido",
+    errors: [{ path: [field], message: "Código inválido" }],
+  };
+}
+
+async function confirmedCredential(req: Request) {
+  const credential = await storage.getTwoFactorCredential(req.user!.id);
+  return credential?.confirmedAt ? credential : undefined;
+}
+
+export function registerTwoFactorRoutes(app: Express) {
+  // Second login step, after /api/login accepted the password
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sua sessão de login expirou. Entre novamente." });
+      }
+
+      const input = twoFactorLoginSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      const credential = user && await storage.getTwoFactorCredential(user.id);
+      if (!user || !credential?.confirmedAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Credenciais inválidas" });
+      }
+
+      const ip = req.ip || "unknown";
+      const lockRemaining = loginLockRemaining(ip, user);
+      if (lockRemaining > 0) return sendLoginLocked(res, lockRemaining);
+
+      const accepted = "code" in input
+        ? await acceptTotpCode(user, credential, input.code)
+        : await acceptRecoveryCode(credential, input.recoveryCode);
+      if (!accepted) {
+        await recordLoginFailure(ip, user.username, user);
+        return res.status(401).json(invalidCodeResponse("code" in input ? "code" : "recoveryCode"));
+      }
+
+      delete req.session.pendingTwoFactor;
+      const loggedInUser = await recordLoginSuccess(user);
+      req.login(loggedInUser, (err) => {
+        if (err) return next(err);
+        // Don't send password in response
+        const { password, ...userWithoutPassword } = loggedInUser;
+        res.status(200).json(userWithoutPassword);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Código inválido", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/user/2fa", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const credential = await confirmedCredential(req);
+      const status: TwoFactorStatus = {
+        enabled: !!credential,
+        required: twoFactorRequiredFor(req.user!),
+        recoveryCodesRemaining: credential?.recoveryCodeHashes.length ?? 0,
+      };
+      res.status(200).json(status);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Starts enrollment with a fresh secret; nothing changes until it is confirmed
+  app.post("/api/user/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.user!.twoFactorEnabled) {
+        return res.status(400).json({ message: "A autenticação em dois fatores já está ativada" });
+      }
+
+      const secret = new Secret({ size: 20 });
+      await storage.saveTwoFactorCredential({ userId: req.user!.id, secret: secret.base32 });
+
+      const otpauthUrl = totpFor(req.user!, secret.base32).toString();
+      const setup: TwoFactorSetup = {
+        secret: secret.base32,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl),
+      };
+      res.status(200).json(setup);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/2fa/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const credential = await storage.getTwoFactorCredential(req.user!.id);
+      if (!credential || credential.confirmedAt) {
+        return res.status(400).json({ message: "Inicie a configuração novamente" });
+      }
+
+      if (!(await acceptTotpCode(req.user!, credential, code))) {
+        return res.status(400).json(invalidCodeResponse("code"));
+      }
+
+      await storage.updateTwoFactorCredential(req.user!.id, { confirmedAt: new Date() });
+      const recoveryCodes = await issueRecoveryCodes(req.user!.id);
+      const updatedUser = await storage.updateUser(req.user!.id, { twoFactorEnabled: true });
+      await recordAudit(req, { action: "update", entityType: "user", before: req.user, after: updatedUser });
+
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Código inválido", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // New recovery codes replace the old ones; needs a current authenticator code
+  app.post("/api/user/2fa/recovery-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const credential = await confirmedCredential(req);
+      if (!credential) {
+        return res.status(400).json({ message: "A autenticação em dois fatores não está ativada" });
+      }
+
+      if (!(await acceptTotpCode(req.user!, credential, code))) {
+        return res.status(400).json(invalidCodeResponse("code"));
+      }
+
+      res.status(200).json({ recoveryCodes: await issueRecoveryCodes(req.user!.id) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Código inválido", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  const disableSchema = z.object({
+    password: z.string().min(1, "Informe sua senha"),
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { password } = disableSchema.parse(req.body);
+      if (twoFactorRequiredFor(req.user!)) {
+        return res.status(400).json({ message: "A autenticação em dois fatores é obrigatória para administradores" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return res.status(400).json({
+          message: "Senha incorreta",
+          errors: [{ path: ["password"], message: "Senha incorreta" }],
+        });
+      }
+
+      await storage.deleteTwoFactorCredential(user.id);
+      const updatedUser = await storage.updateUser(user.id, { twoFactorEnabled: false });
+      await recordAudit(req, { action: "update", entityType: "user", before: user, after: updatedUser });
+      res.status(200).json({ message: "Autenticação em dois fatores desativada" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,155 @@
+import path from "path";
+import fs from "fs/promises";
+import { randomBytes } from "crypto";
+import multer from "multer";
+import sharp from "sharp";
+
+// Allowed upload types, mapped to the extension we store them with
+export const allowedMimeTypes: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "image/x-icon": ".ico",
+  "image/vnd.microsoft.icon": ".ico",
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-powerpoint": ".ppt",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ".pptx",
+};
+
+export const maxUploadSize = Number(process.env.UPLOAD_MAX_SIZE_MB || 10) * 1024 * 1024;
+
+export class UnsupportedFileTypeError extends Error {
+  constructor(public mimeType: string) {
+    super(`Tipo de arquivo não permitido: ${mimeType}`);
+  }
+}
+
+export class InvalidImageError extends Error {
+  constructor(public mimeType: string) {
+    super("O arquivo enviado não é uma imagem válida");
+  }
+}
+
+export interface UploadInput {
+  buffer: Buffer;
+  mimeType: string;
+  originalName: string;
+  // Storage key to write to; generated when omitted
+  key?: string;
+}
+
+export interface StoredFile {
+  key: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  originalName: string;
+}
+
+// Where uploaded files end up. Only local disk exists today, but routes
+// talk to this interface so another backend can be dropped in later.
+export interface FileStorageDriver {
+  save(file: UploadInput): Promise<StoredFile>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskDriver implements FileStorageDriver {
+  constructor(public rootDir: string, public publicPath: string = "/uploads") {}
+
+  async save(file: UploadInput): Promise<StoredFile> {
+    const key = file.key ?? this.generateKey(file.mimeType);
+    const filePath = this.resolve(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.buffer);
+
+    return {
+      key,
+      url: `${this.publicPath}/${key}`,
+      mimeType: file.mimeType,
+      size: file.buffer.length,
+      originalName: file.originalName,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private generateKey(mimeType: string) {
+    const now = new Date();
+    const folder = path.posix.join(
+      String(now.getFullYear()),
+      String(now.getMonth() + 1).padStart(2, "0"),
+    );
+    const extension = allowedMimeTypes[mimeType] ?? "";
+    return path.posix.join(folder, `${Date.now()}-${randomBytes(6).toString("hex")}${extension}`);
+  }
+
+  // Keys must stay inside the upload directory
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error("Invalid file key");
+    }
+    return filePath;
+  }
+}
+
+function createFileStorage(): FileStorageDriver {
+  const driver = process.env.UPLOAD_DRIVER || "local";
+
+  if (driver === "local") {
+    return new LocalDiskDriver(path.resolve(process.env.UPLOAD_DIR || "uploads"));
+  }
+
+  throw new Error(`Unknown UPLOAD_DRIVER "${driver}"`);
+}
+
+export const fileStorage = createFileStorage();
+
+// Formats sharp decodes, by the type the client declared
+const rasterFormats: Record<string, string> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+// Width/height of an uploaded image, or nulls for documents and unreadable
+// icons/SVGs. Throws InvalidImageError when a JPEG, PNG, GIF or WebP upload
+// does not decode as that format, so it is rejected before being stored.
+export async function readImageSize(buffer: Buffer, mimeType: string) {
+  if (!mimeType.startsWith("image/")) {
+    return { width: null, height: null };
+  }
+
+  const expectedFormat = rasterFormats[mimeType];
+  try {
+    const { width, height, format } = await sharp(buffer).metadata();
+    if (expectedFormat && format !== expectedFormat) {
+      throw new InvalidImageError(mimeType);
+    }
+    return { width: width ?? null, height: height ?? null };
+  } catch {
+    if (expectedFormat) throw new InvalidImageError(mimeType);
+    return { width: null, height: null };
+  }
+}
+
+// Keeps the file in memory so the driver decides where it is written
+export const uploadMiddleware = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxUploadSize, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype in allowedMimeTypes) {
+      cb(null, true);
+    } else {
+      cb(new UnsupportedFileTypeError(file.mimetype));
+    }
+  },
+});
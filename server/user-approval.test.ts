@@ -0,0 +1,59 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestServer, createTestUser, TestClient } from "./test-server";
+
+describe("registration review", () => {
+  let server: Awaited<ReturnType<typeof startTestServer>>;
+  let admin: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    await createTestUser("admin", { role: "admin" });
+    await createTestUser("membro");
+    admin = new TestClient(server.url);
+    await admin.login("admin");
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("keeps pending members out until an admin approves them", async () => {
+    const pending = await createTestUser("pendente", { status: "pending" });
+    const client = new TestClient(server.url);
+    assert.equal((await client.login("pendente")).status, 200);
+    assert.equal((await client.get("/api/prayer-requests")).status, 403);
+
+    const res = await admin.post(`/api/users/${pending.id}/approve`);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.status, "approved");
+    assert.equal(typeof res.body.reviewedBy, "number");
+    assert.equal((await client.get("/api/prayer-requests")).status, 200);
+  });
+
+  it("rejects with a reason the member can see", async () => {
+    const pending = await createTestUser("rejeitado", { status: "pending" });
+
+    assert.equal((await admin.post(`/api/users/${pending.id}/reject`, { reason: "" })).status, 400);
+    const res = await admin.post(`/api/users/${pending.id}/reject`, { reason: "Cadastro duplicado" });
+    assert.equal(res.status, 200);
+
+    const client = new TestClient(server.url);
+    await client.login("rejeitado");
+    const user = (await client.get("/api/user")).body;
+    assert.equal(user.status, "rejected");
+    assert.equal(user.rejectionReason, "Cadastro duplicado");
+    assert.equal((await client.get("/api/prayer-requests")).status, 403);
+  });
+
+  it("is only open to user managers, who can't reject themselves", async () => {
+    const pending = await createTestUser("outro", { status: "pending" });
+    const member = new TestClient(server.url);
+    await member.login("membro");
+    assert.equal((await member.post(`/api/users/${pending.id}/approve`)).status, 403);
+
+    const self = (await admin.get("/api/user")).body;
+    assert.equal((await admin.post(`/api/users/${self.id}/reject`, { reason: "Teste" })).status, 400);
+    assert.equal((await admin.post("/api/users/9999/approve")).status, 404);
+  });
+});
@@ -0,0 +1,92 @@
+// Roles and the permissions each one grants. Shared so the server enforces
+// exactly what the client uses to decide which actions to show.
+
+export const roles = ["admin", "pastor", "leader", "editor", "moderator", "member"] as const;
+export type Role = typeof roles[number];
+
+export const permissions = [
+  "dashboard:view",  // administrative dashboard
+  "events:write",    // create events and edit their own
+  "events:manage",   // edit or delete anyone's events
+  "studies:write",
+  "studies:manage",
+  "posts:write",
+  "posts:publish",   // publish posts and edit or delete anyone's
+  "forum:write",
+  "forum:moderate",  // edit or delete anyone's topics and replies
+  "prayer:pastoral", // every prayer request, including pastoral-only and who asked anonymously
+  "media:upload",
+  "media:manage",    // rename or delete anyone's uploads
+  "users:manage",
+  "site:manage",     // site editor and site settings
+  "audit:view",      // history of every create, update and delete
+  "analytics:view",  // charts of membership and content over time
+] as const;
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  admin: permissions,
+  pastor: [
+    "dashboard:view",
+    "events:write", "events:manage",
+    "studies:write", "studies:manage",
+    "posts:write", "posts:publish",
+    "forum:write", "forum:moderate",
+    "prayer:pastoral",
+    "media:upload", "media:manage",
+    "analytics:view",
+  ],
+  leader: [
+    "dashboard:view",
+    "events:write",
+    "studies:write",
+    "posts:write",
+    "forum:write",
+    "media:upload",
+    "analytics:view",
+  ],
+  editor: [
+    "dashboard:view",
+    "events:write",
+    "studies:write",
+    "posts:write", "posts:publish",
+    "forum:write",
+    "media:upload", "media:manage",
+    "site:manage",
+  ],
+  moderator: [
+    "dashboard:view",
+    "forum:write", "forum:moderate",
+    "media:upload",
+  ],
+  member: [
+    "forum:write",
+    "media:upload",
+  ],
+};
+
+export const roleLabels: Record<Role, string> = {
+  admin: "Administrador",
+  pastor: "Pastor",
+  leader: "Líder",
+  editor: "Editor",
+  moderator: "Moderador",
+  member: "Membro",
+};
+
+export function isRole(role: string): role is Role {
+  return (roles as readonly string[]).includes(role);
+}
+
+// Unknown roles (e.g. legacy free-text values) grant nothing
+export function permissionsForRole(role: string): readonly Permission[] {
+  return isRole(role) ? rolePermissions[role] : [];
+}
+
+export function hasPermission(user: { role: string } | null | undefined, permission: Permission): boolean {
+  return !!user && permissionsForRole(user.role).includes(permission);
+}
+
+export function roleLabel(role: string): string {
+  return isRole(role) ? roleLabels[role] : role;
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { roles } from "./permissions";
 
 // User model with roles
 export const users = pgTable("users", {
@@ -9,8 +10,21 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   email: text("email").notNull(),
+  // One of the roles defined in ./permissions
   role: text("role").notNull().default("member"),
   avatarUrl: text("avatar_url"),
+  // Bumped on password change to end every other session
+  sessionVersion: integer("session_version").notNull().default(0),
+  // Self-registered accounts start as "pending" until an admin reviews them
+  status: text("status").notNull().default("approved"),
+  reviewedBy: integer("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  // Consecutive failed logins; past the limit the account is locked until lockedUntil
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  // Set once a TOTP authenticator has been confirmed; the secret lives in two_factor_credentials
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -56,6 +70,13 @@ export const forumTopics = pgTable("forum_topics", {
   content: text("content").notNull(),
   category: text("category").notNull(),
   authorId: integer("author_id").notNull(),
+  // Pinned topics are listed first; locked ones take no new replies
+  isPinned: boolean("is_pinned").notNull().default(false),
+  isLocked: boolean("is_locked").notNull().default(false),
+  // Hidden by a moderator; only moderators still see it and can restore it
+  hiddenAt: timestamp("hidden_at"),
+  hiddenBy: integer("hidden_by"),
+  hiddenReason: text("hidden_reason"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -65,9 +86,77 @@ export const forumReplies = pgTable("forum_replies", {
   content: text("content").notNull(),
   topicId: integer("topic_id").notNull(),
   authorId: integer("author_id").notNull(),
+  // Reply being answered; null for replies to the topic itself
+  parentReplyId: integer("parent_reply_id"),
+  // Excerpt of another reply in the same topic shown above the content
+  quotedReplyId: integer("quoted_reply_id"),
+  quotedText: text("quoted_text"),
+  hiddenAt: timestamp("hidden_at"),
+  hiddenBy: integer("hidden_by"),
+  hiddenReason: text("hidden_reason"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One row per user, reaction and topic or reply; the unique key makes reacting idempotent
+export const forumReactions = pgTable("forum_reactions", {
+  id: serial("id").primaryKey(),
+  // One of forumEntityTypes
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  userId: integer("user_id").notNull(),
+  // One of forumReactionKinds
+  kind: text("kind").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("forum_reactions_once_per_user").on(table.entityType, table.entityId, table.userId, table.kind),
+]);
+
+// Members flagging forum topics or replies for moderators to review
+export const contentReports = pgTable("content_reports", {
+  id: serial("id").primaryKey(),
+  // One of reportableTypes
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  reporterId: integer("reporter_id").notNull(),
+  reason: text("reason").notNull(),
+  details: text("details"),
+  // "open" until a moderator dismisses it or acts on the content ("resolved")
+  status: text("status").notNull().default("open"),
+  // What was done when resolved: hide, delete or warn
+  resolution: text("resolution"),
+  moderatorNote: text("moderator_note"),
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Prayer requests, kept apart from the forum so each one controls who can read it
+export const prayerRequests = pgTable("prayer_requests", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  authorId: integer("author_id").notNull(),
+  // One of prayerVisibilities
+  visibility: text("visibility").notNull().default("members"),
+  // "open" until the author shares that the prayer was answered
+  status: text("status").notNull().default("open"),
+  testimony: text("testimony"),
+  answeredAt: timestamp("answered_at"),
+  // Leaves the community list after this; the author and pastors still see it
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// "Eu orei": one row per member and request, so the count is of people praying
+export const prayerIntercessions = pgTable("prayer_intercessions", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("prayer_intercessions_once_per_user").on(table.requestId, table.userId),
+]);
+
 // Site customization settings
 export const siteSettings = pgTable("site_settings", {
   id: serial("id").primaryKey(),
@@ -77,14 +166,137 @@ export const siteSettings = pgTable("site_settings", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One-time password reset tokens; only a hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// TOTP secret and hashed recovery codes; unconfirmed until the first valid code
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  secret: text("secret").notNull(),
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  // Last accepted time step, so a code can't be replayed
+  lastUsedStep: integer("last_used_step"),
+  confirmedAt: timestamp("confirmed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Login lockouts and admin unlocks, kept for auditing
+export const loginLockEvents = pgTable("login_lock_events", {
+  id: serial("id").primaryKey(),
+  event: text("event").notNull(), // "locked" | "unlocked"
+  scope: text("scope").notNull(), // "user" | "ip"
+  userId: integer("user_id"),
+  username: text("username"),
+  ipAddress: text("ip_address"),
+  failedAttempts: integer("failed_attempts"),
+  lockedUntil: timestamp("locked_until"),
+  // Admin who lifted the lock
+  actorId: integer("actor_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Community activity shown on the dashboard ("Maria criou o evento ...")
+export const activities = pgTable("activities", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // see activityTypes
+  actorId: integer("actor_id").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id").notNull(),
+  // Title or name at the time of the activity
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Field-by-field changes of an audited entity; creates have only "after"
+// values and deletes only "before" values
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Who created, changed or deleted what, with the fields that changed
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"),
+  action: text("action").notNull(), // "create" | "update" | "delete"
+  entityType: text("entity_type").notNull(),
+  entityId: integer("entity_id"),
+  // Title or name at the time, so deleted entities stay recognizable
+  entityLabel: text("entity_label"),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const mediaVariantSchema = z.object({
+  name: z.enum(["thumbnail", "medium", "large"]),
+  url: z.string(),
+  storageKey: z.string(),
+  mimeType: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  size: z.number().int(),
+});
+
+export type MediaVariant = z.infer<typeof mediaVariantSchema>;
+
+// Uploaded media library
+export const media = pgTable("media", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  storageKey: text("storage_key").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  altText: text("alt_text"),
+  // Resized copies generated on upload, see server/images.ts
+  variants: jsonb("variants").$type<MediaVariant[]>().notNull().default([]),
+  uploadedBy: integer("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertEventSchema = createInsertSchema(events).omit({ id: true, createdAt: true });
+// Clients send dates as ISO strings
+export const insertEventSchema = createInsertSchema(events, {
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+}).omit({ id: true, createdAt: true });
 export const insertStudySchema = createInsertSchema(studies).omit({ id: true, createdAt: true });
 export const insertPostSchema = createInsertSchema(posts).omit({ id: true, createdAt: true });
 export const insertForumTopicSchema = createInsertSchema(forumTopics).omit({ id: true, createdAt: true });
-export const insertForumReplySchema = createInsertSchema(forumReplies).omit({ id: true, createdAt: true });
+export const insertForumReplySchema = createInsertSchema(forumReplies, {
+  quotedText: z.string().trim().max(500, "A citação deve ter no máximo 500 caracteres").nullish(),
+}).omit({ id: true, createdAt: true });
+export const insertForumReactionSchema = createInsertSchema(forumReactions).omit({ id: true, createdAt: true });
+export const insertContentReportSchema = createInsertSchema(contentReports).omit({ id: true, createdAt: true });
+export const insertPrayerRequestSchema = createInsertSchema(prayerRequests).omit({ id: true, createdAt: true });
+export const insertPrayerIntercessionSchema = createInsertSchema(prayerIntercessions).omit({ id: true, createdAt: true });
 export const insertSiteSettingSchema = createInsertSchema(siteSettings).omit({ id: true, updatedAt: true });
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({ id: true, createdAt: true });
+export const insertLoginLockEventSchema = createInsertSchema(loginLockEvents).omit({ id: true, createdAt: true });
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials, {
+  recoveryCodeHashes: z.array(z.string()).optional(),
+}).omit({ id: true, createdAt: true });
+export const insertActivitySchema = createInsertSchema(activities).omit({ id: true, createdAt: true });
+export const insertAuditLogSchema = createInsertSchema(auditLog, {
+  changes: z.custom<AuditChanges>().optional(),
+}).omit({ id: true, createdAt: true });
+export const insertMediaSchema = createInsertSchema(media, {
+  variants: z.array(mediaVariantSchema).optional(),
+}).omit({ id: true, createdAt: true });
+
+// Edits send only the changed fields and never move content to another author
+export const updateEventSchema = insertEventSchema.omit({ createdBy: true }).partial();
+export const updateStudySchema = insertStudySchema.omit({ authorId: true }).partial();
+export const updatePostSchema = insertPostSchema.omit({ authorId: true }).partial();
 
 // Types for the insert schemas
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -93,7 +305,17 @@ export type InsertStudy = z.infer<typeof insertStudySchema>;
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type InsertForumTopic = z.infer<typeof insertForumTopicSchema>;
 export type InsertForumReply = z.infer<typeof insertForumReplySchema>;
+export type InsertForumReaction = z.infer<typeof insertForumReactionSchema>;
+export type InsertContentReport = z.infer<typeof insertContentReportSchema>;
+export type InsertPrayerRequest = z.infer<typeof insertPrayerRequestSchema>;
+export type InsertPrayerIntercession = z.infer<typeof insertPrayerIntercessionSchema>;
 export type InsertSiteSetting = z.infer<typeof insertSiteSettingSchema>;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type InsertLoginLockEvent = z.infer<typeof insertLoginLockEventSchema>;
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+export type InsertMedia = z.infer<typeof insertMediaSchema>;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+export type InsertActivity = z.infer<typeof insertActivitySchema>;
 
 // Types for the select schemas
 export type User = typeof users.$inferSelect;
@@ -102,7 +324,375 @@ export type Study = typeof studies.$inferSelect;
 export type Post = typeof posts.$inferSelect;
 export type ForumTopic = typeof forumTopics.$inferSelect;
 export type ForumReply = typeof forumReplies.$inferSelect;
+export type ForumReaction = typeof forumReactions.$inferSelect;
+export type ContentReport = typeof contentReports.$inferSelect;
+export type PrayerRequest = typeof prayerRequests.$inferSelect;
+export type PrayerIntercession = typeof prayerIntercessions.$inferSelect;
 export type SiteSetting = typeof siteSettings.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type LoginLockEvent = typeof loginLockEvents.$inferSelect;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type Media = typeof media.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type Activity = typeof activities.$inferSelect;
+
+// Media library listing
+export type MediaType = "image" | "document";
+
+// Public view of an uploaded image, used to build srcset
+export type ResolvedMedia = Pick<Media, "url" | "mimeType" | "width" | "height"> & {
+  variants: Omit<MediaVariant, "storageKey">[];
+};
+
+export type MediaPage = {
+  items: Media[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Two-factor authentication API shapes
+export type TwoFactorStatus = {
+  enabled: boolean;
+  // Whether the user's role must have it enabled
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  // QR code of otpauthUrl as a data: URL
+  qrCode: string;
+};
+
+// Returned by /api/login when the password was right but a code is still needed
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+};
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Informe o código de 6 dígitos"),
+});
+
+// Second login step: an authenticator code or one of the recovery codes
+export const twoFactorLoginSchema = z.union([
+  twoFactorCodeSchema,
+  z.object({ recoveryCode: z.string().trim().min(1, "Informe um código de recuperação") }),
+]);
+
+export const activityTypes = ["new_member", "new_study", "new_event", "new_post", "new_forum"] as const;
+export type ActivityType = typeof activityTypes[number];
+
+// One entry of /api/activity, ready to render
+export type ActivityFeedItem = {
+  id: number;
+  type: ActivityType;
+  actorName: string;
+  actorAvatarUrl: string | null;
+  entityType: string;
+  entityId: number;
+  title: string;
+  createdAt: string;
+  // Relative time in Portuguese, e.g. "há 2 horas"
+  timeAgo: string;
+};
+
+export type ActivityFeedPage = {
+  items: ActivityFeedItem[];
+  // Pass as ?before= to load the next page; null when there is nothing older
+  nextCursor: number | null;
+};
+
+// A dashboard figure next to the same figure for the previous period
+export type PeriodStat = {
+  value: number;
+  previous: number;
+  // Percentage change, null when the previous period had nothing to compare with
+  change: number | null;
+};
+
+export type DashboardStats = {
+  totalMembers: PeriodStat;
+  monthlyEvents: PeriodStat;
+  publishedStudies: PeriodStat;
+  // Forum topics plus replies
+  forumActivity: PeriodStat;
+  eventsToday: number;
+};
+
+export const analyticsBuckets = ["day", "week", "month"] as const;
+export type AnalyticsBucket = typeof analyticsBuckets[number];
+
+// Periods are ISO dates of the start of each day, week or month; empty periods are included
+export type AnalyticsReport = {
+  from: string;
+  to: string;
+  bucket: AnalyticsBucket;
+  members: { period: string; count: number }[];
+  eventsByType: { group: string; count: number }[];
+  studiesByCategory: { group: string; count: number }[];
+  forum: { period: string; topics: number; replies: number }[];
+  posts: { period: string; count: number }[];
+};
+
+// Categories offered when creating or moving a topic
+export const forumCategories = [
+  "Discussão",
+  "Sugestão",
+  "Reflexão",
+  "Pedido de Oração",
+  "Testemunho",
+  "Dúvida",
+  "Anúncio",
+] as const;
+
+// What members may set when posting, and later change in their own topics and replies;
+// pinning, locking and hiding go through the moderation routes, and the
+// author is always the logged-in user
+export const createForumTopicSchema = insertForumTopicSchema.pick({ title: true, content: true, category: true });
+export const updateForumTopicSchema = createForumTopicSchema.partial();
+export const createForumReplySchema = insertForumReplySchema.pick({
+  content: true,
+  topicId: true,
+  parentReplyId: true,
+  quotedReplyId: true,
+  quotedText: true,
+});
+export const updateForumReplySchema = insertForumReplySchema.pick({ content: true });
+
+export const moderateForumTopicSchema = z.object({
+  isPinned: z.boolean(),
+  isLocked: z.boolean(),
+  category: z.enum(forumCategories, { errorMap: () => ({ message: "Categoria inválida" }) }),
+}).partial();
+
+export const hideForumContentSchema = z.object({
+  reason: z.string().trim().min(3, "Informe o motivo").max(500, "O motivo deve ter no máximo 500 caracteres"),
+});
+
+// Forum content that can be reported or reacted to
+export const forumEntityTypes = ["forum_topic", "forum_reply"] as const;
+export type ForumEntityType = typeof forumEntityTypes[number];
+
+export const reportableTypes = forumEntityTypes;
+export type ReportableType = ForumEntityType;
+
+export const reportReasons = ["spam", "offensive", "inappropriate", "other"] as const;
+export type ReportReason = typeof reportReasons[number];
+export const reportStatuses = ["open", "dismissed", "resolved"] as const;
+export type ReportStatus = typeof reportStatuses[number];
+export const reportActions = ["dismiss", "hide", "delete", "warn"] as const;
+export type ReportAction = typeof reportActions[number];
+
+export const createReportSchema = z.object({
+  entityType: z.enum(reportableTypes),
+  entityId: z.number().int(),
+  reason: z.enum(reportReasons, { errorMap: () => ({ message: "Escolha um motivo" }) }),
+  details: z.string().trim().max(500, "Os detalhes devem ter no máximo 500 caracteres").optional(),
+}).refine((report) => report.reason !== "other" || (report.details?.length ?? 0) >= 3, {
+  message: "Descreva o motivo da denúncia",
+  path: ["details"],
+});
+
+export const resolveReportSchema = z.object({
+  action: z.enum(reportActions),
+  note: z.string().trim().max(500, "A observação deve ter no máximo 500 caracteres").optional(),
+}).refine((resolution) => resolution.action !== "warn" || (resolution.note?.length ?? 0) >= 3, {
+  message: "Escreva a advertência que será enviada ao autor",
+  path: ["note"],
+});
+
+// A report in the moderation queue, with the reported content as it is now
+export type ContentReportView = ContentReport & {
+  reporterName: string;
+  // Open reports for the same content, this one included
+  openReportCount: number;
+  // Null once the content has been deleted
+  content: {
+    topicId: number;
+    title: string | null;
+    text: string;
+    authorId: number;
+    authorName: string;
+    hidden: boolean;
+  } | null;
+};
+
+// 🙏 amém, ❤️ and 👍, in the order they are shown
+export const forumReactionKinds = ["amen", "heart", "thumbs_up"] as const;
+export type ForumReactionKind = typeof forumReactionKinds[number];
+
+// Reactions of one topic or reply, one entry per kind that has any
+export type ReactionSummary = {
+  kind: ForumReactionKind;
+  count: number;
+  // Whether the user viewing the content reacted with this kind
+  reacted: boolean;
+  userNames: string[];
+};
+
+export const forumTopicSorts = ["activity", "newest"] as const;
+export type ForumTopicSort = typeof forumTopicSorts[number];
+
+// A topic as listed in the forum, with its author and latest reply resolved
+export type ForumTopicSummary = ForumTopic & {
+  authorName: string;
+  authorAvatarUrl: string | null;
+  replyCount: number;
+  lastReplyAt: string | null;
+  lastReplyAuthorName: string | null;
+  // Latest reply, or when the topic was created if it has none
+  lastActivityAt: string;
+  reactions: ReactionSummary[];
+};
+
+export type ForumReplyView = ForumReply & {
+  authorName: string;
+  authorAvatarUrl: string | null;
+  reactions: ReactionSummary[];
+};
+
+export type ForumReplyNode = ForumReplyView & {
+  // 1 for replies to the topic
+  depth: number;
+  quote: {
+    replyId: number;
+    authorName: string;
+    text: string;
+    // False once the quoted reply has been deleted
+    available: boolean;
+  } | null;
+  children: ForumReplyNode[];
+};
+
+// Every reply of a topic, nested under the reply it answers
+export type ForumReplyThread = {
+  maxDepth: number;
+  total: number;
+  replies: ForumReplyNode[];
+};
+
+// public: also visitors; members: logged-in members; pastoral: only the pastoral team;
+// anonymous: members read it without knowing who asked
+export const prayerVisibilities = ["public", "members", "pastoral", "anonymous"] as const;
+export type PrayerVisibility = typeof prayerVisibilities[number];
+
+export const prayerStatuses = ["open", "answered"] as const;
+export type PrayerStatus = typeof prayerStatuses[number];
+
+// How long a request stays in the community list, in days
+export const prayerDurations = [7, 30, 90] as const;
+
+const prayerDurationSchema = z.number().int().refine(
+  (days) => (prayerDurations as readonly number[]).includes(days),
+  { message: "Escolha um prazo válido" },
+);
+
+export const createPrayerRequestSchema = z.object({
+  title: z.string().trim().min(3, "O título deve ter pelo menos 3 caracteres").max(120, "O título deve ter no máximo 120 caracteres"),
+  content: z.string().trim().min(1, "Descreva o pedido").max(2000, "O pedido deve ter no máximo 2000 caracteres"),
+  visibility: z.enum(prayerVisibilities),
+  durationDays: prayerDurationSchema,
+});
+
+// A new duration renews the request from today
+export const updatePrayerRequestSchema = createPrayerRequestSchema.partial();
+
+export const answerPrayerRequestSchema = z.object({
+  testimony: z.string().trim().max(2000, "O testemunho deve ter no máximo 2000 caracteres").optional(),
+});
+
+export const prayerListScopes = ["community", "mine", "pastoral"] as const;
+export type PrayerListScope = typeof prayerListScopes[number];
+
+export type PrayerRequestView = Omit<PrayerRequest, "authorId"> & {
+  // Null on anonymous requests, except for their author and the pastoral team
+  authorId: number | null;
+  authorName: string | null;
+  authorAvatarUrl: string | null;
+  prayerCount: number;
+  // Whether the viewer already marked "eu orei"
+  prayed: boolean;
+  isOwn: boolean;
+  expired: boolean;
+};
+
+export const auditActions = ["create", "update", "delete"] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEntityTypes = ["event", "study", "post", "forum_topic", "forum_reply", "content_report", "prayer_request", "user", "site_setting", "media"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+// Audit entries as listed in the admin viewer, with the actor's name resolved
+export type AuditLogPage = {
+  items: (AuditLogEntry & { actorName: string | null })[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// A logged-in session of the current user, as listed in the account settings
+export type ActiveSession = {
+  // Opaque id used to revoke it; never the session id itself
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+// Profile fields members can change themselves (never role or username)
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(3, "Nome deve ter no mínimo 3 caracteres"),
+  email: z.string().trim().email("Email inválido"),
+  avatarUrl: z.union([
+    z.string().url("URL inválida"),
+    z.string().startsWith("/uploads/", "URL inválida"),
+    z.literal(""),
+  ]).nullable().optional(),
+});
+
+export type UpdateProfileData = z.infer<typeof updateProfileSchema>;
+
+// Fields an admin can change on another user's account
+export const adminUpdateUserSchema = updateProfileSchema.pick({ name: true, email: true }).extend({
+  role: z.enum(roles, { errorMap: () => ({ message: "Função inválida" }) }),
+});
+
+export type AdminUpdateUserData = z.infer<typeof adminUpdateUserSchema>;
+
+// Public sign-up fields; role and other privileged columns are not accepted.
+// Password strength is checked on the server against the configured policy.
+export const registerUserSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  name: true,
+  email: true,
+}).extend({
+  username: z.string().trim()
+    .min(3, "Usuário deve ter no mínimo 3 caracteres")
+    .max(30, "Usuário deve ter no máximo 30 caracteres")
+    .regex(/^[a-zA-Z0-9._-]+$/, "Use apenas letras, números, ponto, hífen ou sublinhado"),
+  password: z.string().min(1, "Senha é obrigatória"),
+  name: z.string().trim().min(3, "Nome deve ter no mínimo 3 caracteres"),
+  email: z.string().trim().email("Email inválido"),
+}).strict();
+
+export type RegisterUserData = z.infer<typeof registerUserSchema>;
+
+export const userStatuses = ["pending", "approved", "rejected"] as const;
+export type UserStatus = typeof userStatuses[number];
+
+// Reason is shown to the member on the waiting screen
+export const rejectUserSchema = z.object({
+  reason: z.string().trim()
+    .min(3, "Informe o motivo da rejeição")
+    .max(500, "Motivo deve ter no máximo 500 caracteres"),
+});
+
+export type RejectUserData = z.infer<typeof rejectUserSchema>;
 
 // Login schema
 export const loginSchema = z.object({
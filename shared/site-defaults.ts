@@ -0,0 +1,11 @@
+// Default site settings, shared by the site editor form and the seed script
+export const defaultSiteSettings = {
+  siteName: "Igreja Batista IBI Parnaíba",
+  font: "Inter",
+  borderRadius: "0.5rem",
+  primaryColor: "#3b82f6",
+  enableEvents: true,
+  enableStudies: true,
+  enableForum: true,
+  enableBlog: true,
+};